@@ -1,10 +1,26 @@
-import { RouterProvider, createBrowserRouter } from 'react-router'
+import { RouterProvider, createBrowserRouter, redirect } from 'react-router'
 import Home from './pages/Home'
 import About from './pages/About'
+import Boards from './pages/Boards'
+import { db } from './db'
+import { getLatestBoard } from './db/boards'
 
 const router = createBrowserRouter([
   {
     path: '/',
+    // Reopen the board the user was last working on
+    loader: async () => redirect(`/board/${(await getLatestBoard()).id}`),
+  },
+  {
+    path: '/boards',
+    element: <Boards />,
+  },
+  {
+    path: '/board/:id',
+    loader: async ({ params }) => {
+      const board = params.id ? await db.boards.get(params.id) : undefined
+      return board ?? redirect('/boards')
+    },
     element: <Home />,
   },
   {
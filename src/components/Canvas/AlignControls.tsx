@@ -0,0 +1,160 @@
+import {
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalSpaceAround,
+  AlignVerticalSpaceAround,
+  X,
+} from "lucide-react";
+import type { AlignAction, DistributeAxis } from "../../utils/align";
+
+const ALIGN_BUTTONS: {
+  action: AlignAction;
+  label: string;
+  shortcut: string;
+  Icon: typeof AlignStartVertical;
+}[] = [
+  {
+    action: "left",
+    label: "Align left",
+    shortcut: "Alt+A",
+    Icon: AlignStartVertical,
+  },
+  {
+    action: "center",
+    label: "Align horizontal centers",
+    shortcut: "Alt+H",
+    Icon: AlignCenterVertical,
+  },
+  {
+    action: "right",
+    label: "Align right",
+    shortcut: "Alt+D",
+    Icon: AlignEndVertical,
+  },
+  {
+    action: "top",
+    label: "Align top",
+    shortcut: "Alt+W",
+    Icon: AlignStartHorizontal,
+  },
+  {
+    action: "middle",
+    label: "Align vertical centers",
+    shortcut: "Alt+V",
+    Icon: AlignCenterHorizontal,
+  },
+  {
+    action: "bottom",
+    label: "Align bottom",
+    shortcut: "Alt+S",
+    Icon: AlignEndHorizontal,
+  },
+];
+
+const DISTRIBUTE_BUTTONS: {
+  axis: DistributeAxis;
+  label: string;
+  shortcut: string;
+  Icon: typeof AlignStartVertical;
+}[] = [
+  {
+    axis: "horizontal",
+    label: "Distribute horizontally",
+    shortcut: "Alt+Shift+H",
+    Icon: AlignHorizontalSpaceAround,
+  },
+  {
+    axis: "vertical",
+    label: "Distribute vertically",
+    shortcut: "Alt+Shift+V",
+    Icon: AlignVerticalSpaceAround,
+  },
+];
+
+interface AlignControlsProps {
+  onAlign: (action: AlignAction) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  canDistribute: boolean;
+  hasKeyElement: boolean;
+  onClearKeyElement: () => void;
+}
+
+// Align and distribute buttons shown while several elements or groups are
+// selected. Alignment is relative to the selection's bounds, or to the key
+// object once one is picked by clicking an element of the selection.
+export default function AlignControls({
+  onAlign,
+  onDistribute,
+  canDistribute,
+  hasKeyElement,
+  onClearKeyElement,
+}: AlignControlsProps) {
+  const buttonClass =
+    "w-7 h-7 flex items-center justify-center rounded-lg hover:bg-gray-100 text-gray-700 transition-colors disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent";
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-white rounded-xl shadow-lg border border-gray-200 px-2 py-1.5 z-50 select-none"
+      role="toolbar"
+      aria-label="Align and distribute"
+    >
+      {ALIGN_BUTTONS.map(({ action, label, shortcut, Icon }) => (
+        <button
+          key={action}
+          className={buttonClass}
+          onClick={() => onAlign(action)}
+          title={`${label} (${shortcut})`}
+          aria-label={label}
+        >
+          <Icon size={16} />
+        </button>
+      ))}
+
+      <div className="w-px h-5 bg-gray-200 mx-1" />
+
+      {DISTRIBUTE_BUTTONS.map(({ axis, label, shortcut, Icon }) => (
+        <button
+          key={axis}
+          className={buttonClass}
+          onClick={() => onDistribute(axis)}
+          disabled={!canDistribute}
+          title={
+            canDistribute
+              ? `${label} (${shortcut})`
+              : `${label} needs at least three elements or groups`
+          }
+          aria-label={label}
+        >
+          <Icon size={16} />
+        </button>
+      ))}
+
+      <div className="w-px h-5 bg-gray-200 mx-1" />
+
+      {hasKeyElement ? (
+        <span className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-lg bg-blue-50 text-xs text-blue-700">
+          To key object
+          <button
+            className="p-0.5 rounded hover:bg-blue-100"
+            onClick={onClearKeyElement}
+            title="Align to the selection instead"
+            aria-label="Clear key object"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ) : (
+        <span
+          className="px-2 text-xs text-gray-500"
+          title="Click an element of the selection to align to it instead"
+        >
+          To selection
+        </span>
+      )}
+    </div>
+  );
+}
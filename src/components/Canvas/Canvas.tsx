@@ -1,16 +1,40 @@
-import { forwardRef } from "react";
-import type { CanvasElementData } from "./CanvasElement";
-import type { MarqueeState } from "../../types/canvas";
+import { forwardRef, useMemo } from "react";
+import type {
+  CanvasElementData,
+  FontFamily,
+  TextRun,
+  TextSizing,
+  TextStyle,
+} from "./CanvasElement";
+import type { FontOption } from "../../utils/textLayout";
+import type { SnapHints } from "../../utils/snapping";
+import type { GridSettings } from "../../db";
+import { getGridSpacing } from "../../utils/grid";
+import type {
+  MarqueeState,
+  ResizeHandle,
+  SelectionFrame,
+} from "../../types/canvas";
 import CanvasElement from "./CanvasElement";
+import SelectionBox from "./SelectionBox";
+import SnapGuides from "./SnapGuides";
+import { getElementBounds, unionBoxes } from "../../utils/geometry";
+import { getKeyItemBounds } from "../../utils/align";
 
 interface CanvasProps {
   elements: CanvasElementData[];
   selectedElementIds: Set<string>;
-  onElementContentChange: (id: string, content: string) => void;
+  onElementContentChange: (
+    id: string,
+    content: string,
+    runs?: TextRun[],
+  ) => void;
   onElementFocus: (id: string) => void;
   onElementBlur: (id: string) => void;
   onElementSelect: (id: string) => void;
   onCanvasClick?: () => void;
+  onCanvasDoubleClick?: (e: React.MouseEvent<HTMLDivElement>) => void;
+  onCanvasContextMenu?: (e: React.MouseEvent<HTMLDivElement>) => void;
   onCanvasMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
   onElementMouseDown?: (
     elementId: string,
@@ -18,11 +42,28 @@ interface CanvasProps {
   onRotateHandleMouseDown?: (
     elementId: string,
   ) => (e: React.MouseEvent<HTMLDivElement>) => void;
-  onRotate?: (elementId: string, deltaRotation: number) => void;
+  onResizeHandleMouseDown?: (
+    elementId: string,
+  ) => (e: React.MouseEvent<HTMLDivElement>, handle: ResizeHandle) => void;
+  onGroupRotateHandleMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
+  onGroupResizeHandleMouseDown?: (
+    e: React.MouseEvent<HTMLDivElement>,
+    handle: ResizeHandle,
+  ) => void;
+  // Outline of a multi-element selection while it is being transformed
+  selectionFrame?: SelectionFrame | null;
+  // Alignment guides for the selection being dragged
+  snapHints?: SnapHints | null;
+  // Selected element the rest of the selection aligns to
+  keyElementId?: string | null;
+  grid?: GridSettings;
   onMeasure?: (elementId: string, width: number, height: number) => void;
-  onToggleFont?: (id: string) => void;
-  onToggleItalic?: (id: string) => void;
-  onToggleTextColor?: (id: string) => void;
+  onSetTextStyle?: (id: string, changes: Partial<TextStyle>) => void;
+  onPreviewTextStyle?: (id: string, changes: Partial<TextStyle>) => void;
+  onSetTextSizing?: (id: string, textSizing: TextSizing) => void;
+  onSetTextRuns?: (id: string, runs: TextRun[]) => void;
+  fontOptions?: FontOption[];
+  onUploadFont?: (file: File) => Promise<FontFamily | null>;
   onRemoveBackground?: (id: string) => void;
   onCropImage?: (id: string, crop: import('./CanvasElement').CropRect, newWidth: number, newHeight: number, naturalWidth: number, naturalHeight: number) => void;
   bgRemovalProcessingIds?: Set<string>;
@@ -30,7 +71,7 @@ interface CanvasProps {
   marqueeState?: MarqueeState | null;
   zoom?: number;
   onSetShapeFillColor?: (id: string, color: string) => void;
-  onStartShapeEyedropper?: (id: string) => void;
+  onStartEyedropper?: (id: string) => void;
   eyedropperTargetId?: string | null;
 }
 
@@ -43,14 +84,25 @@ const Canvas = forwardRef<HTMLDivElement, CanvasProps>(function Canvas(
     onElementBlur,
     onElementSelect,
     onCanvasClick,
+    onCanvasDoubleClick,
+    onCanvasContextMenu,
     onCanvasMouseDown,
     onElementMouseDown,
     onRotateHandleMouseDown,
-    onRotate,
+    onResizeHandleMouseDown,
+    onGroupRotateHandleMouseDown,
+    onGroupResizeHandleMouseDown,
+    selectionFrame,
+    snapHints,
+    keyElementId = null,
+    grid,
     onMeasure,
-    onToggleFont,
-    onToggleItalic,
-    onToggleTextColor,
+    onSetTextStyle,
+    onPreviewTextStyle,
+    onSetTextSizing,
+    onSetTextRuns,
+    fontOptions,
+    onUploadFont,
     onRemoveBackground,
     onCropImage,
     bgRemovalProcessingIds,
@@ -58,7 +110,7 @@ const Canvas = forwardRef<HTMLDivElement, CanvasProps>(function Canvas(
     marqueeState,
     zoom = 1,
     onSetShapeFillColor,
-    onStartShapeEyedropper,
+    onStartEyedropper,
     eyedropperTargetId,
   },
   ref,
@@ -71,6 +123,34 @@ const Canvas = forwardRef<HTMLDivElement, CanvasProps>(function Canvas(
     onCanvasClick?.();
   };
 
+  const visibleElements = elements.filter((el) => !el.hidden);
+  const gridSpacing = grid?.visible
+    ? getGridSpacing(grid.size, zoom) * zoom
+    : null;
+
+  // Several selected elements are rotated and scaled together through one
+  // bounding box instead of their own handles
+  const isMultiSelection = selectedElementIds.size > 1;
+  const selectionBounds = useMemo(() => {
+    if (!isMultiSelection) return null;
+    return unionBoxes(
+      elements
+        .filter(
+          (el) => selectedElementIds.has(el.id) && !el.hidden && !el.locked,
+        )
+        .map(getElementBounds),
+    );
+  }, [elements, selectedElementIds, isMultiSelection]);
+  const keyBounds = useMemo(
+    () => getKeyItemBounds(elements, selectedElementIds, keyElementId),
+    [elements, selectedElementIds, keyElementId],
+  );
+  const shownSelectionFrame =
+    selectionFrame ??
+    (selectionBounds && !isDragging
+      ? { box: selectionBounds, rotation: 0 }
+      : null);
+
   // Compute marquee rect for rendering
   const marqueeRect = marqueeState
     ? {
@@ -88,19 +168,30 @@ const Canvas = forwardRef<HTMLDivElement, CanvasProps>(function Canvas(
         isDragging ? "opacity-90" : ""
       }`}
       onClick={handleCanvasClick}
+      onDoubleClick={onCanvasDoubleClick}
+      onContextMenu={onCanvasContextMenu}
       onMouseDown={onCanvasMouseDown}
       data-testid="canvas"
       role="main"
       aria-label="Canvas for adding and editing elements"
     >
-      {/* Canvas background grid (optional visual aid) */}
-      <div className="absolute inset-0 opacity-5 pointer-events-none" />
-
       {/* Render all canvas elements - scaled via transform for smooth zoom */}
       <div
         className="relative"
         style={{ width: `${CANVAS_SIZE * zoom}px`, height: `${CANVAS_SIZE * zoom}px` }}
       >
+        {/* Background grid, drawn at screen scale so lines stay 1px */}
+        {gridSpacing && (
+          <div
+            className="absolute inset-0 pointer-events-none"
+            style={{
+              backgroundImage:
+                "linear-gradient(to right, rgba(0,0,0,0.08) 1px, transparent 1px), linear-gradient(to bottom, rgba(0,0,0,0.08) 1px, transparent 1px)",
+              backgroundSize: `${gridSpacing}px ${gridSpacing}px`,
+            }}
+          />
+        )}
+
         <div
           className="absolute left-0 top-0"
           style={{
@@ -110,32 +201,71 @@ const Canvas = forwardRef<HTMLDivElement, CanvasProps>(function Canvas(
             transformOrigin: "0 0",
           }}
         >
-          {elements.map((element) => (
+          {/* Hidden elements stay in the layers panel only */}
+          {visibleElements.map((element) => (
             <CanvasElement
               key={element.id}
               {...element}
               isSelected={selectedElementIds.has(element.id)}
+              isMultiSelected={isMultiSelection}
               onContentChange={onElementContentChange}
               onFocus={onElementFocus}
               onBlur={onElementBlur}
               onSelect={onElementSelect}
-              onRotate={onRotate}
               onMeasure={onMeasure}
               onMouseDown={onElementMouseDown?.(element.id)}
-              onRotateHandleMouseDown={onRotateHandleMouseDown?.(element.id)}
-              onToggleFont={onToggleFont}
-              onToggleItalic={onToggleItalic}
-              onToggleTextColor={onToggleTextColor}
+              onRotateHandleMouseDown={
+                isMultiSelection || element.locked
+                  ? undefined
+                  : onRotateHandleMouseDown?.(element.id)
+              }
+              onResizeHandleMouseDown={
+                isMultiSelection || element.locked
+                  ? undefined
+                  : onResizeHandleMouseDown?.(element.id)
+              }
+              onSetTextStyle={onSetTextStyle}
+              onPreviewTextStyle={onPreviewTextStyle}
+              onSetTextSizing={onSetTextSizing}
+              onSetTextRuns={onSetTextRuns}
+              fontOptions={fontOptions}
+              onUploadFont={onUploadFont}
               onRemoveBackground={onRemoveBackground}
               onCropCommit={onCropImage}
               isRemovingBackground={bgRemovalProcessingIds?.has(element.id)}
               isDragging={isDragging}
               onSetShapeFillColor={onSetShapeFillColor}
-              onStartShapeEyedropper={onStartShapeEyedropper}
+              onStartEyedropper={onStartEyedropper}
               eyedropperTargetId={eyedropperTargetId}
             />
           ))}
 
+          {/* Multi-selection bounding box */}
+          {shownSelectionFrame && (
+            <SelectionBox
+              frame={shownSelectionFrame}
+              onResizeHandleMouseDown={onGroupResizeHandleMouseDown}
+              onRotateHandleMouseDown={onGroupRotateHandleMouseDown}
+            />
+          )}
+
+          {/* Key object outline */}
+          {keyBounds && !isDragging && !selectionFrame && (
+            <div
+              className="absolute border-2 border-blue-600 pointer-events-none"
+              style={{
+                left: keyBounds.x - 1,
+                top: keyBounds.y - 1,
+                width: keyBounds.width + 2,
+                height: keyBounds.height + 2,
+                zIndex: 900,
+              }}
+            />
+          )}
+
+          {/* Smart guides while dragging */}
+          {snapHints && <SnapGuides hints={snapHints} zoom={zoom} />}
+
           {/* Marquee selection overlay */}
           {marqueeRect && (
             <div
@@ -1,6 +1,8 @@
 import Textbox from './Textbox';
 import Image from './Image';
 import Shape, { type ShapeKind } from './Shape';
+import type { FontOption } from '../../utils/textLayout';
+import type { ResizeHandle } from '../../types/canvas';
 
 export interface CropRect {
   x: number;
@@ -9,6 +11,55 @@ export interface CropRect {
   height: number;
 }
 
+export type BuiltinFontFamily = 'comic-sans' | 'sans' | 'meme';
+// Uploaded fonts are referenced as `custom:<font id>` (see db/fonts)
+export type FontFamily = BuiltinFontFamily | `custom:${string}`;
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextShadow {
+  color: string;
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+}
+
+// How a textbox's text is drawn. Every field is optional; unset fields fall
+// back to DEFAULT_TEXT_STYLE (see utils/textLayout).
+export interface TextStyle {
+  fontFamily?: FontFamily;
+  // Hex fill color
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  allCaps?: boolean;
+  align?: TextAlign;
+  // Extra space between characters, in px
+  letterSpacing?: number;
+  // Multiple of the font size
+  lineHeight?: number;
+  // Outline, drawn behind the fill; no outline when width is 0 or unset
+  strokeColor?: string;
+  strokeWidth?: number;
+  shadow?: TextShadow;
+}
+
+// A stretch of a textbox's text with its own styling. Unset fields fall back
+// to the textbox's textStyle; `scale` is relative to its fontSize, so styled
+// runs keep their proportions when the box is resized or auto-fit.
+export interface TextRun {
+  text: string;
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+  scale?: number;
+}
+
+// How a textbox is sized: `auto` grows with its text, `fixed` keeps its
+// width and height and wraps the text, `fit` also shrinks or grows the font
+// to the largest size that fits
+export type TextSizing = 'auto' | 'fixed' | 'fit';
+
 export interface CanvasElementData {
   id: string;
   type: 'textbox' | 'image' | 'shape';
@@ -17,42 +68,61 @@ export interface CanvasElementData {
   width?: number;
   height?: number;
   rotation?: number;
+  // Content mirrored along the element's own axes (images and shapes only)
+  flipX?: boolean;
+  flipY?: boolean;
   content?: string;
+  // Styled runs whose text joins up to `content`; unset when the whole
+  // textbox uses its textStyle (see utils/richText)
+  runs?: TextRun[];
   src?: string;
   // Key used to look up the image blob in db.imageBlobs. Defaults to `id` if
   // not set, but background removal stores new versions under a fresh key so
   // that the original blob is preserved and undo can restore it.
   blobKey?: string;
   fontSize?: number;
-  fontFamily?: 'comic-sans' | 'sans';
-  italic?: boolean;
-  textColor?: 'black' | 'white';
+  textStyle?: TextStyle;
+  textSizing?: TextSizing;
   naturalWidth?: number;
   naturalHeight?: number;
   crop?: CropRect;
   shape?: ShapeKind;
   fillColor?: string;
+  // Groups the element belongs to, outermost first (see utils/groups)
+  groupIds?: string[];
+  // Label shown in the layers panel; derived from the element when unset
+  name?: string;
+  hidden?: boolean;
+  locked?: boolean;
 }
 
 interface CanvasElementProps extends CanvasElementData {
   isSelected?: boolean;
-  onContentChange?: (id: string, content: string) => void;
+  // Selected along with other elements, e.g. as part of a group
+  isMultiSelected?: boolean;
+  onContentChange?: (id: string, content: string, runs?: TextRun[]) => void;
   onFocus?: (id: string) => void;
   onBlur?: (id: string) => void;
   onSelect?: (id: string) => void;
-  onRotate?: (id: string, deltaRotation: number) => void;
   onMeasure?: (elementId: string, width: number, height: number) => void;
   onMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
   onRotateHandleMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
-  onToggleFont?: (id: string) => void;
-  onToggleItalic?: (id: string) => void;
-  onToggleTextColor?: (id: string) => void;
+  onResizeHandleMouseDown?: (
+    e: React.MouseEvent<HTMLDivElement>,
+    handle: ResizeHandle,
+  ) => void;
+  onSetTextStyle?: (id: string, changes: Partial<TextStyle>) => void;
+  onPreviewTextStyle?: (id: string, changes: Partial<TextStyle>) => void;
+  onSetTextSizing?: (id: string, textSizing: TextSizing) => void;
+  onSetTextRuns?: (id: string, runs: TextRun[]) => void;
+  fontOptions?: FontOption[];
+  onUploadFont?: (file: File) => Promise<FontFamily | null>;
   onRemoveBackground?: (id: string) => void;
   onCropCommit?: (id: string, crop: import('./CanvasElement').CropRect, newWidth: number, newHeight: number, naturalWidth: number, naturalHeight: number) => void;
   isRemovingBackground?: boolean;
   isDragging?: boolean;
   onSetShapeFillColor?: (id: string, color: string) => void;
-  onStartShapeEyedropper?: (id: string) => void;
+  onStartEyedropper?: (id: string) => void;
   eyedropperTargetId?: string | null;
 }
 
@@ -64,24 +134,31 @@ export default function CanvasElement({
   width,
   height,
   rotation = 0,
+  flipX = false,
+  flipY = false,
   content = '',
+  runs,
   src = '',
   fontSize = 16,
-  fontFamily = 'sans',
-  italic = false,
-  textColor = 'black',
+  textStyle,
+  textSizing,
   isSelected = false,
+  isMultiSelected = false,
+  locked = false,
   onContentChange = () => {},
   onFocus = () => {},
   onBlur = () => {},
   onSelect = () => {},
-  onRotate,
   onMeasure,
   onMouseDown,
   onRotateHandleMouseDown,
-  onToggleFont,
-  onToggleItalic,
-  onToggleTextColor,
+  onResizeHandleMouseDown,
+  onSetTextStyle,
+  onPreviewTextStyle,
+  onSetTextSizing,
+  onSetTextRuns,
+  fontOptions,
+  onUploadFont,
   onRemoveBackground,
   onCropCommit,
   isRemovingBackground = false,
@@ -92,7 +169,7 @@ export default function CanvasElement({
   shape = 'rectangle',
   fillColor,
   onSetShapeFillColor,
-  onStartShapeEyedropper,
+  onStartEyedropper,
   eyedropperTargetId,
 }: CanvasElementProps) {
   if (type === 'textbox') {
@@ -100,26 +177,33 @@ export default function CanvasElement({
       <Textbox
         id={id}
         content={content}
+        runs={runs}
         onContentChange={onContentChange}
         onFocus={onFocus}
         onBlur={onBlur}
         isSelected={isSelected}
+        isMultiSelected={isMultiSelected}
+        locked={locked}
         rotation={rotation}
         x={x}
         y={y}
         width={width}
         height={height}
         fontSize={fontSize}
-        fontFamily={fontFamily}
-        italic={italic}
-        textColor={textColor}
-        onRotate={onRotate}
+        textStyle={textStyle}
+        textSizing={textSizing}
+        onSetTextSizing={onSetTextSizing}
+        onSetTextRuns={onSetTextRuns}
+        fontOptions={fontOptions}
+        onUploadFont={onUploadFont}
         onMeasure={onMeasure}
         onMouseDown={onMouseDown}
         onRotateHandleMouseDown={onRotateHandleMouseDown}
-        onToggleFont={onToggleFont}
-        onToggleItalic={onToggleItalic}
-        onToggleTextColor={onToggleTextColor}
+        onResizeHandleMouseDown={onResizeHandleMouseDown}
+        onSetTextStyle={onSetTextStyle}
+        onPreviewTextStyle={onPreviewTextStyle}
+        onStartEyedropper={onStartEyedropper}
+        isEyedropperActive={eyedropperTargetId === id}
         isDragging={isDragging}
       />
     );
@@ -132,14 +216,18 @@ export default function CanvasElement({
         src={src}
         onSelect={onSelect}
         isSelected={isSelected}
+        isMultiSelected={isMultiSelected}
+        locked={locked}
         x={x}
         y={y}
         width={width}
         height={height}
         rotation={rotation}
-        onRotate={onRotate}
+        flipX={flipX}
+        flipY={flipY}
         onMouseDown={onMouseDown}
         onRotateHandleMouseDown={onRotateHandleMouseDown}
+        onResizeHandleMouseDown={onResizeHandleMouseDown}
         onRemoveBackground={onRemoveBackground}
         onCropCommit={onCropCommit}
         isRemovingBackground={isRemovingBackground}
@@ -162,12 +250,15 @@ export default function CanvasElement({
         width={width}
         height={height}
         rotation={rotation}
+        flipX={flipX}
+        flipY={flipY}
         isSelected={isSelected}
+        locked={locked}
         onMouseDown={onMouseDown}
-        onRotate={onRotate}
         onRotateHandleMouseDown={onRotateHandleMouseDown}
+        onResizeHandleMouseDown={onResizeHandleMouseDown}
         onSetFillColor={onSetShapeFillColor}
-        onStartEyedropper={onStartShapeEyedropper}
+        onStartEyedropper={onStartEyedropper}
         isEyedropperActive={eyedropperTargetId === id}
         isDragging={isDragging}
       />
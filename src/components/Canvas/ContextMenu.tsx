@@ -0,0 +1,81 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+
+export interface ContextMenuItem {
+  label: string;
+  shortcut?: string;
+  onSelect: () => void;
+  disabled?: boolean;
+}
+
+interface ContextMenuProps {
+  // Viewport coordinates the menu opens at
+  x: number;
+  y: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+// Right-click menu for canvas elements. Closes on outside clicks, Escape,
+// scrolling, or once an item is chosen.
+export default function ContextMenu({ x, y, items, onClose }: ContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ left: x, top: y });
+
+  // Keep the menu inside the viewport
+  useLayoutEffect(() => {
+    const menu = menuRef.current;
+    if (!menu) return;
+    const { width, height } = menu.getBoundingClientRect();
+    setPosition({
+      left: Math.max(0, Math.min(x, window.innerWidth - width - 4)),
+      top: Math.max(0, Math.min(y, window.innerHeight - height - 4)),
+    });
+  }, [x, y]);
+
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("scroll", onClose, true);
+    window.addEventListener("resize", onClose);
+    return () => {
+      window.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("scroll", onClose, true);
+      window.removeEventListener("resize", onClose);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={menuRef}
+      className="fixed min-w-48 bg-white rounded-xl shadow-xl border border-gray-200 p-1 z-50 select-none"
+      style={position}
+      role="menu"
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {items.map(({ label, shortcut, onSelect, disabled }) => (
+        <button
+          key={label}
+          className="flex items-center justify-between gap-6 px-3 py-1.5 rounded-lg hover:bg-gray-100 text-sm text-gray-800 w-full disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+          disabled={disabled}
+          onClick={() => {
+            onSelect();
+            onClose();
+          }}
+          role="menuitem"
+        >
+          {label}
+          {shortcut && (
+            <span className="text-xs text-gray-400">{shortcut}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,20 +1,30 @@
 import { useState, useRef, useEffect, useCallback } from "react";
-import { Scissors, Eraser, Loader2 } from "lucide-react";
+import { Scissors, Eraser, Loader2, Lock } from "lucide-react";
 import type { CropRect } from "./CanvasElement";
+import TransformHandles from "./TransformHandles";
+import type { ResizeHandle } from "../../types/canvas";
 
 interface ImageProps {
   id: string;
   src: string;
   onSelect: (id: string) => void;
   isSelected?: boolean;
+  // Locked images can't be moved, transformed or cropped
+  locked?: boolean;
+  isMultiSelected?: boolean;
   x: number;
   y: number;
   width?: number;
   height?: number;
   rotation?: number;
-  onRotate?: (id: string, deltaRotation: number) => void;
+  flipX?: boolean;
+  flipY?: boolean;
   onMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
   onRotateHandleMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
+  onResizeHandleMouseDown?: (
+    e: React.MouseEvent<HTMLDivElement>,
+    handle: ResizeHandle,
+  ) => void;
   onRemoveBackground?: (id: string) => void;
   onCropCommit?: (id: string, crop: CropRect, newWidth: number, newHeight: number, naturalWidth: number, naturalHeight: number) => void;
   isRemovingBackground?: boolean;
@@ -34,14 +44,18 @@ export default function Image({
   src,
   onSelect: _onSelect,
   isSelected = false,
+  locked = false,
+  isMultiSelected = false,
   x,
   y,
   width = 200,
   height = 200,
   rotation = 0,
-  onRotate,
+  flipX = false,
+  flipY = false,
   onMouseDown,
   onRotateHandleMouseDown,
+  onResizeHandleMouseDown,
   onRemoveBackground,
   onCropCommit,
   isRemovingBackground = false,
@@ -105,7 +119,8 @@ export default function Image({
 
   // Enter crop mode on double-click
   const handleDoubleClick = useCallback(() => {
-    if (!isSelected) return;
+    // Double-clicking a group enters it rather than cropping
+    if (!isSelected || isMultiSelected || locked) return;
     const { nw, nh } = getNaturalDims();
     preCropSnapshot.current = { crop, width, height };
     if (crop) {
@@ -120,7 +135,7 @@ export default function Image({
       setLocalCrop({ x: offsetX, y: offsetY, width: visibleW, height: visibleH });
     }
     setIsCropping(true);
-  }, [isSelected, getNaturalDims, crop, width, height]);
+  }, [isSelected, isMultiSelected, locked, getNaturalDims, crop, width, height]);
 
   // Keyboard: Enter to commit, Escape to cancel
   useEffect(() => {
@@ -231,18 +246,6 @@ export default function Image({
     e.stopPropagation();
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
-    if (isSelected && onRotate && !isCropping) {
-      if (e.key === "ArrowLeft") {
-        e.preventDefault();
-        onRotate(id, -5);
-      } else if (e.key === "ArrowRight") {
-        e.preventDefault();
-        onRotate(id, 5);
-      }
-    }
-  };
-
   const startHandleDrag = (handle: HandleDirection) => (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
@@ -438,7 +441,7 @@ export default function Image({
   return (
     <div
       className={`absolute group transition-all select-none ${
-        isSelected ? 'ring-2 ring-blue-500' : 'hover:ring-2 hover:ring-gray-400'
+        isSelected ? 'ring-2 ring-blue-500' : locked ? '' : 'hover:ring-2 hover:ring-gray-400'
       } rounded ${isDragging ? 'opacity-70' : ''}`}
       style={{
         left: `${x}px`,
@@ -446,13 +449,12 @@ export default function Image({
         width: `${width}px`,
         height: `${height}px`,
         transform: `rotate(${rotation}deg)`,
-        cursor: isDragging ? 'grabbing' : 'grab',
+        cursor: locked ? 'default' : isDragging ? 'grabbing' : 'grab',
         willChange: isDragging ? 'transform' : 'auto',
       }}
       onClick={handleClick}
       onDoubleClick={handleDoubleClick}
       onMouseDown={onMouseDown}
-      onKeyDown={handleKeyDown}
       tabIndex={0}
       data-element-id={id}
       data-element-type="image"
@@ -465,7 +467,25 @@ export default function Image({
         </div>
       )}
 
-      {renderCroppedImage()}
+      {/* Lock badge */}
+      {locked && (
+        <div className="absolute -top-6 left-0 bg-gray-700 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+          <Lock size={12} />
+        </div>
+      )}
+
+      {/* Flipping mirrors the picture inside the element's own axes */}
+      <div
+        className="w-full h-full"
+        style={{
+          transform:
+            flipX || flipY
+              ? `scale(${flipX ? -1 : 1}, ${flipY ? -1 : 1})`
+              : undefined,
+        }}
+      >
+        {renderCroppedImage()}
+      </div>
 
       {/* Processing overlay */}
       {isRemovingBackground && (
@@ -516,13 +536,10 @@ export default function Image({
             </button>
           </div>
 
-          {/* Rotate handle at bottom-right */}
-          <div
-            className="absolute bottom-0 right-0 w-3 h-3 bg-blue-500 rounded-full -mr-1.5 -mb-1.5 cursor-grab pointer-events-auto"
-            onMouseDown={(e) => {
-              e.stopPropagation();
-              onRotateHandleMouseDown?.(e);
-            }}
+          <TransformHandles
+            rotation={rotation}
+            onResizeHandleMouseDown={onResizeHandleMouseDown}
+            onRotateHandleMouseDown={onRotateHandleMouseDown}
           />
         </div>
       )}
@@ -0,0 +1,45 @@
+import TransformHandles from "./TransformHandles";
+import type { ResizeHandle, SelectionFrame } from "../../types/canvas";
+
+// A selection of several elements only scales uniformly, from its corners
+const CORNER_HANDLES: ResizeHandle[] = ["nw", "ne", "se", "sw"];
+
+interface SelectionBoxProps {
+  frame: SelectionFrame;
+  onResizeHandleMouseDown?: (
+    e: React.MouseEvent<HTMLDivElement>,
+    handle: ResizeHandle,
+  ) => void;
+  onRotateHandleMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
+}
+
+// Combined bounding box drawn around a multi-element selection, with
+// handles that rotate and scale the selection as a whole
+export default function SelectionBox({
+  frame,
+  onResizeHandleMouseDown,
+  onRotateHandleMouseDown,
+}: SelectionBoxProps) {
+  const { box, rotation } = frame;
+
+  return (
+    <div
+      className="absolute border border-dashed border-blue-500 pointer-events-none"
+      style={{
+        left: box.x,
+        top: box.y,
+        width: box.width,
+        height: box.height,
+        transform: `rotate(${rotation}deg)`,
+        zIndex: 900,
+      }}
+    >
+      <TransformHandles
+        rotation={rotation}
+        handles={CORNER_HANDLES}
+        onResizeHandleMouseDown={onResizeHandleMouseDown}
+        onRotateHandleMouseDown={onRotateHandleMouseDown}
+      />
+    </div>
+  );
+}
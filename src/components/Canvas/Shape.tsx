@@ -1,5 +1,7 @@
 import { useCallback, useEffect, useState } from "react";
-import { Pipette } from "lucide-react";
+import { Lock, Pipette } from "lucide-react";
+import TransformHandles from "./TransformHandles";
+import type { ResizeHandle } from "../../types/canvas";
 
 export type ShapeKind = "rectangle" | "square" | "circle" | "triangle";
 
@@ -11,11 +13,18 @@ interface ShapeProps {
   width?: number;
   height?: number;
   rotation?: number;
+  flipX?: boolean;
+  flipY?: boolean;
   fillColor?: string;
   isSelected?: boolean;
-  onRotate?: (id: string, deltaRotation: number) => void;
+  // Locked shapes can't be moved or transformed
+  locked?: boolean;
   onMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
   onRotateHandleMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
+  onResizeHandleMouseDown?: (
+    e: React.MouseEvent<HTMLDivElement>,
+    handle: ResizeHandle,
+  ) => void;
   onSetFillColor?: (id: string, color: string) => void;
   onStartEyedropper?: (id: string) => void;
   isEyedropperActive?: boolean;
@@ -37,11 +46,14 @@ export default function Shape({
   width = 180,
   height = 120,
   rotation = 0,
+  flipX = false,
+  flipY = false,
   fillColor,
   isSelected = false,
-  onRotate,
+  locked = false,
   onMouseDown,
   onRotateHandleMouseDown,
+  onResizeHandleMouseDown,
   onSetFillColor,
   onStartEyedropper,
   isEyedropperActive = false,
@@ -50,18 +62,6 @@ export default function Shape({
   const [copied, setCopied] = useState(false);
   const effectiveColor = (fillColor || DEFAULT_FILL[shape]).toUpperCase();
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
-    if (isSelected && onRotate) {
-      if (e.key === "ArrowLeft") {
-        e.preventDefault();
-        onRotate(id, -5);
-      } else if (e.key === "ArrowRight") {
-        e.preventDefault();
-        onRotate(id, 5);
-      }
-    }
-  };
-
   const renderShape = useCallback(() => {
     const fill = fillColor || DEFAULT_FILL[shape];
 
@@ -125,7 +125,11 @@ export default function Shape({
   return (
     <div
       className={`absolute group select-none ${
-        isSelected ? "ring-2 ring-blue-500" : "hover:ring-2 hover:ring-gray-400"
+        isSelected
+          ? "ring-2 ring-blue-500"
+          : locked
+            ? ""
+            : "hover:ring-2 hover:ring-gray-400"
       } rounded ${isDragging ? "opacity-70" : ""}`}
       style={{
         left: `${x}px`,
@@ -133,17 +137,33 @@ export default function Shape({
         width: `${width}px`,
         height: `${height}px`,
         transform: `rotate(${rotation}deg)`,
-        cursor: isDragging ? "grabbing" : "grab",
+        cursor: locked ? "default" : isDragging ? "grabbing" : "grab",
         willChange: isDragging ? "transform" : "auto",
       }}
       onMouseDown={onMouseDown}
-      onKeyDown={handleKeyDown}
       onClick={(e) => e.stopPropagation()}
       tabIndex={0}
       data-element-id={id}
       data-element-type="shape"
     >
-      {renderShape()}
+      <div
+        className="w-full h-full"
+        style={{
+          transform:
+            flipX || flipY
+              ? `scale(${flipX ? -1 : 1}, ${flipY ? -1 : 1})`
+              : undefined,
+        }}
+      >
+        {renderShape()}
+      </div>
+
+      {/* Lock badge */}
+      {locked && (
+        <div className="absolute -top-6 left-0 bg-gray-700 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+          <Lock size={12} />
+        </div>
+      )}
 
       {isSelected && (
         <div className="absolute inset-0">
@@ -189,12 +209,10 @@ export default function Shape({
             </button>
           </div>
 
-          <div
-            className="absolute bottom-0 right-0 w-3 h-3 bg-blue-500 rounded-full -mr-1.5 -mb-1.5 cursor-grab pointer-events-auto"
-            onMouseDown={(e) => {
-              e.stopPropagation();
-              onRotateHandleMouseDown?.(e);
-            }}
+          <TransformHandles
+            rotation={rotation}
+            onResizeHandleMouseDown={onResizeHandleMouseDown}
+            onRotateHandleMouseDown={onRotateHandleMouseDown}
           />
         </div>
       )}
@@ -0,0 +1,91 @@
+import type { SnapHints } from "../../utils/snapping";
+
+interface SnapGuidesProps {
+  hints: SnapHints;
+  zoom: number;
+}
+
+const GUIDE_COLOR = "#EC4899";
+
+// Alignment lines and equal-spacing markers shown while dragging. Drawn in
+// canvas coordinates, with line widths divided by zoom to stay 1px on screen.
+export default function SnapGuides({ hints, zoom }: SnapGuidesProps) {
+  const line = 1 / zoom;
+  const cap = 6 / zoom;
+
+  return (
+    <div
+      className="absolute inset-0 pointer-events-none"
+      style={{ zIndex: 950 }}
+    >
+      {hints.guides.map((guide, i) =>
+        guide.axis === "x" ? (
+          <div
+            key={`guide-${i}`}
+            className="absolute"
+            style={{
+              left: guide.position - line / 2,
+              top: guide.start,
+              width: line,
+              height: guide.end - guide.start,
+              background: GUIDE_COLOR,
+            }}
+          />
+        ) : (
+          <div
+            key={`guide-${i}`}
+            className="absolute"
+            style={{
+              left: guide.start,
+              top: guide.position - line / 2,
+              width: guide.end - guide.start,
+              height: line,
+              background: GUIDE_COLOR,
+            }}
+          />
+        ),
+      )}
+
+      {/* Equal gaps: a line across each gap with end caps and its size */}
+      {hints.gaps.map((gap, i) => {
+        const isX = gap.axis === "x";
+        const length = gap.end - gap.start;
+        return (
+          <div
+            key={`gap-${i}`}
+            className="absolute flex items-center justify-center"
+            style={{
+              left: isX ? gap.start : gap.offset - cap / 2,
+              top: isX ? gap.offset - cap / 2 : gap.start,
+              width: isX ? length : cap,
+              height: isX ? cap : length,
+              borderColor: GUIDE_COLOR,
+              borderStyle: "solid",
+              borderWidth: isX ? `0 ${line}px` : `${line}px 0`,
+            }}
+          >
+            <div
+              className="absolute"
+              style={{
+                background: GUIDE_COLOR,
+                width: isX ? "100%" : line,
+                height: isX ? line : "100%",
+              }}
+            />
+            <span
+              className="relative rounded px-1 text-white"
+              style={{
+                background: GUIDE_COLOR,
+                fontSize: 10 / zoom,
+                lineHeight: 1.4,
+                transform: isX ? `translateY(${-10 / zoom}px)` : undefined,
+              }}
+            >
+              {Math.round(length)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useRef } from "react";
+import { Pipette } from "lucide-react";
+import type { TextShadow, TextStyle } from "./CanvasElement";
+import type { ResolvedTextStyle } from "../../utils/textLayout";
+
+const DEFAULT_SHADOW: TextShadow = {
+  color: "#000000",
+  offsetX: 2,
+  offsetY: 2,
+  blur: 4,
+};
+
+interface ColorInputProps {
+  value: string;
+  label: string;
+  onPreview: (color: string) => void;
+  onCommit: (color: string) => void;
+}
+
+// Native color inputs fire `input` on every move of the picker and `change`
+// once it closes, so only the final color ends up in the undo history
+function ColorInput({ value, label, onPreview, onCommit }: ColorInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    const handleChange = () => onCommit(input.value);
+    input.addEventListener("change", handleChange);
+    return () => input.removeEventListener("change", handleChange);
+  }, [onCommit]);
+
+  return (
+    <input
+      ref={inputRef}
+      type="color"
+      value={value.toLowerCase()}
+      onChange={(e) => onPreview(e.target.value)}
+      className="w-7 h-6 p-0 border border-gray-300 rounded cursor-pointer"
+      title={label}
+      aria-label={label}
+    />
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+function NumberField({ label, value, min, max, step, onChange }: NumberFieldProps) {
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          if (e.target.value !== "" && Number.isFinite(next)) {
+            onChange(Math.min(max, Math.max(min, next)));
+          }
+        }}
+        className="w-16 px-1 py-0.5 border border-gray-300 rounded text-gray-800"
+      />
+    </label>
+  );
+}
+
+interface TextStylePanelProps {
+  style: ResolvedTextStyle;
+  fontSize: number;
+  onChange: (changes: Partial<TextStyle>) => void;
+  onPreview: (changes: Partial<TextStyle>) => void;
+  onStartEyedropper?: () => void;
+  isEyedropperActive?: boolean;
+}
+
+export default function TextStylePanel({
+  style,
+  fontSize,
+  onChange,
+  onPreview,
+  onStartEyedropper,
+  isEyedropperActive = false,
+}: TextStylePanelProps) {
+  const shadow = style.shadow ?? DEFAULT_SHADOW;
+
+  return (
+    <div
+      className="absolute top-full left-0 mt-2 w-56 p-3 space-y-2 bg-white text-gray-700 text-xs rounded-xl shadow-xl border border-gray-200 pointer-events-auto cursor-default"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      {/* Text color */}
+      <div className="flex items-center gap-1">
+        <span className="flex-1">Color</span>
+        <button
+          className="w-6 h-6 rounded border border-gray-300 bg-black"
+          title="Black text"
+          onClick={() => onChange({ color: "#000000" })}
+        />
+        <button
+          className="w-6 h-6 rounded border border-gray-300 bg-white"
+          title="White text"
+          onClick={() => onChange({ color: "#FFFFFF" })}
+        />
+        <ColorInput
+          label="Text color"
+          value={style.color}
+          onPreview={(color) => onPreview({ color })}
+          onCommit={(color) => onChange({ color })}
+        />
+        <button
+          className={`w-6 h-6 rounded border border-gray-300 flex items-center justify-center ${
+            isEyedropperActive ? "bg-blue-500 text-white" : "bg-white"
+          }`}
+          title="Pick color from image"
+          onClick={onStartEyedropper}
+        >
+          <Pipette size={14} />
+        </button>
+      </div>
+
+      <NumberField
+        label="Letter spacing"
+        value={style.letterSpacing}
+        min={-10}
+        max={50}
+        step={0.5}
+        onChange={(letterSpacing) => onChange({ letterSpacing })}
+      />
+      <NumberField
+        label="Line height"
+        value={style.lineHeight}
+        min={0.8}
+        max={3}
+        step={0.1}
+        onChange={(lineHeight) => onChange({ lineHeight })}
+      />
+
+      {/* Outline */}
+      <div className="flex items-center gap-1">
+        <label className="flex flex-1 items-center gap-1">
+          <input
+            type="checkbox"
+            checked={style.strokeWidth > 0}
+            onChange={(e) =>
+              onChange({
+                strokeWidth: e.target.checked
+                  ? Math.max(1, Math.round(fontSize / 12))
+                  : 0,
+              })
+            }
+          />
+          Outline
+        </label>
+        {style.strokeWidth > 0 && (
+          <>
+            <ColorInput
+              label="Outline color"
+              value={style.strokeColor}
+              onPreview={(strokeColor) => onPreview({ strokeColor })}
+              onCommit={(strokeColor) => onChange({ strokeColor })}
+            />
+            <input
+              type="number"
+              min={1}
+              max={24}
+              value={style.strokeWidth}
+              onChange={(e) => {
+                const strokeWidth = Number(e.target.value);
+                if (strokeWidth >= 1 && strokeWidth <= 24) {
+                  onChange({ strokeWidth });
+                }
+              }}
+              className="w-12 px-1 py-0.5 border border-gray-300 rounded text-gray-800"
+              title="Outline width"
+              aria-label="Outline width"
+            />
+          </>
+        )}
+      </div>
+
+      {/* Drop shadow */}
+      <div className="flex items-center gap-1">
+        <label className="flex flex-1 items-center gap-1">
+          <input
+            type="checkbox"
+            checked={!!style.shadow}
+            onChange={(e) =>
+              onChange({ shadow: e.target.checked ? DEFAULT_SHADOW : undefined })
+            }
+          />
+          Shadow
+        </label>
+        {style.shadow && (
+          <ColorInput
+            label="Shadow color"
+            value={shadow.color}
+            onPreview={(color) => onPreview({ shadow: { ...shadow, color } })}
+            onCommit={(color) => onChange({ shadow: { ...shadow, color } })}
+          />
+        )}
+      </div>
+      {style.shadow && (
+        <>
+          <NumberField
+            label="Offset X"
+            value={shadow.offsetX}
+            min={-50}
+            max={50}
+            step={1}
+            onChange={(offsetX) => onChange({ shadow: { ...shadow, offsetX } })}
+          />
+          <NumberField
+            label="Offset Y"
+            value={shadow.offsetY}
+            min={-50}
+            max={50}
+            step={1}
+            onChange={(offsetY) => onChange({ shadow: { ...shadow, offsetY } })}
+          />
+          <NumberField
+            label="Blur"
+            value={shadow.blur}
+            min={0}
+            max={50}
+            step={1}
+            onChange={(blur) => onChange({ shadow: { ...shadow, blur } })}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,60 +1,244 @@
-import { useRef, useEffect } from "react";
+import { useRef, useEffect, useState } from "react";
 import { useAutoSizing } from "../../hooks/useAutoSizing";
-import { Italic, Moon, Sun } from "lucide-react";
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  Bold,
+  CaseUpper,
+  Italic,
+  Lock,
+  SlidersHorizontal,
+  Underline,
+} from "lucide-react";
+import type {
+  FontFamily,
+  TextAlign,
+  TextRun,
+  TextSizing,
+  TextStyle,
+} from "./CanvasElement";
+import TextStylePanel from "./TextStylePanel";
+import TransformHandles from "./TransformHandles";
+import type { ResizeHandle } from "../../types/canvas";
+import {
+  BUILTIN_FONT_OPTIONS,
+  getFontStack,
+  getTextShadowCss,
+  resolveTextStyle,
+  type FontOption,
+} from "../../utils/textLayout";
+import {
+  RUN_SCALES,
+  applyRunStyle,
+  getRunStyleAt,
+  getRunsText,
+  getSelectionOffsets,
+  getTextFields,
+  getTextRuns,
+  insertRuns,
+  isRunStyleChange,
+  normalizeRuns,
+  readRunsFromDom,
+  readRunsFromHtml,
+  renderRunsToDom,
+  setSelectionOffsets,
+  type RunStyle,
+} from "../../utils/richText";
+import { FONT_FILE_EXTENSIONS } from "../../db/fonts";
+
+// Value of the font picker's "Upload font..." entry
+const UPLOAD_FONT_OPTION = "upload";
+const ALIGN_CYCLE: TextAlign[] = ["left", "center", "right"];
+const ALIGN_ICONS = {
+  left: AlignLeft,
+  center: AlignCenter,
+  right: AlignRight,
+};
+
+const SIZING_CYCLE: TextSizing[] = ["auto", "fixed", "fit"];
+const SIZING_LABELS = {
+  auto: "Auto",
+  fixed: "Wrap",
+  fit: "Fit",
+};
+const SIZING_TITLES = {
+  auto: "Box grows with the text",
+  fixed: "Fixed-size box, text wraps",
+  fit: "Fixed-size box, text shrinks to fit",
+};
+
+// A textbox that grows with its text has no height to drag; its corners
+// scale the text and its sides set the wrapping width
+const AUTO_SIZE_RESIZE_HANDLES: ResizeHandle[] = [
+  "nw",
+  "ne",
+  "e",
+  "se",
+  "sw",
+  "w",
+];
+
+function next<T>(cycle: T[], current: T) {
+  return cycle[(cycle.indexOf(current) + 1) % cycle.length];
+}
 
 interface TextboxProps {
   id: string;
   content: string;
-  onContentChange: (id: string, content: string) => void;
+  runs?: TextRun[];
+  onContentChange: (id: string, content: string, runs?: TextRun[]) => void;
   onFocus: (id: string) => void;
   onBlur: (id: string) => void;
   isSelected?: boolean;
+  // Locked textboxes can't be moved, transformed or edited
+  locked?: boolean;
+  isMultiSelected?: boolean;
   rotation?: number;
   x: number;
   y: number;
   width?: number;
   height?: number;
   fontSize?: number;
-  onRotate?: (id: string, deltaRotation: number) => void;
   onMeasure?: (elementId: string, width: number, height: number) => void;
   onMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
   onRotateHandleMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
-  onToggleFont?: (id: string) => void;
-  onToggleItalic?: (id: string) => void;
-  onToggleTextColor?: (id: string) => void;
-  fontFamily?: "comic-sans" | "sans";
-  italic?: boolean;
-  textColor?: "black" | "white";
+  onResizeHandleMouseDown?: (
+    e: React.MouseEvent<HTMLDivElement>,
+    handle: ResizeHandle,
+  ) => void;
+  onSetTextStyle?: (id: string, changes: Partial<TextStyle>) => void;
+  onPreviewTextStyle?: (id: string, changes: Partial<TextStyle>) => void;
+  onStartEyedropper?: (id: string) => void;
+  isEyedropperActive?: boolean;
+  textStyle?: TextStyle;
+  textSizing?: TextSizing;
+  onSetTextSizing?: (id: string, textSizing: TextSizing) => void;
+  onSetTextRuns?: (id: string, runs: TextRun[]) => void;
+  fontOptions?: FontOption[];
+  onUploadFont?: (file: File) => Promise<FontFamily | null>;
   isDragging?: boolean;
 }
 
 export default function Textbox({
   id,
   content,
+  runs,
   onContentChange,
   onFocus,
   onBlur,
   isSelected = false,
+  locked = false,
+  isMultiSelected = false,
   rotation = 0,
   x,
   y,
   width,
+  height,
   fontSize = 16,
-  fontFamily = "sans",
-  italic = false,
-  onRotate,
   onMeasure,
   onMouseDown,
   onRotateHandleMouseDown,
-  onToggleFont,
-  onToggleItalic,
-  onToggleTextColor,
-  textColor = "black",
+  onResizeHandleMouseDown,
+  onSetTextStyle,
+  onPreviewTextStyle,
+  onStartEyedropper,
+  isEyedropperActive = false,
+  textStyle,
+  textSizing = "auto",
+  onSetTextSizing,
+  onSetTextRuns,
+  fontOptions = BUILTIN_FONT_OPTIONS,
+  onUploadFont,
   isDragging = false,
 }: TextboxProps) {
   const contentRef = useRef<HTMLDivElement>(null);
   const hasAutoFocusedRef = useRef(false);
   const mouseDownPosRef = useRef<{ x: number; y: number } | null>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const [isStylePanelOpen, setIsStylePanelOpen] = useState(false);
+  // Text selected in the editor, as character offsets. It outlives the
+  // editor losing focus, so the style panel can still restyle it.
+  const [textSelection, setTextSelection] = useState<{
+    start: number;
+    end: number;
+  } | null>(null);
+  const style = resolveTextStyle(textStyle);
+  const AlignIcon = ALIGN_ICONS[style.align];
+  const resizeHandles =
+    textSizing === "auto" ? AUTO_SIZE_RESIZE_HANDLES : undefined;
+  const textRuns = getTextRuns({ content, runs });
+  const selection = isSelected ? textSelection : null;
+
+  // While text is selected the toolbar shows, and edits, the selection's
+  // style instead of the whole textbox's
+  const selectionStyle = selection
+    ? getRunStyleAt(textRuns, selection.start)
+    : {};
+  const shownStyle = {
+    ...style,
+    color: selectionStyle.color ?? style.color,
+    bold: selectionStyle.bold ?? style.bold,
+    italic: selectionStyle.italic ?? style.italic,
+  };
+  const selectionScale = selectionStyle.scale ?? 1;
+
+  // Restyle the selected text. Previews aren't recorded in the history.
+  const setRunStyle = (changes: RunStyle, isPreview = false) => {
+    const root = contentRef.current;
+    if (!selection || !root) return;
+
+    const nextRuns = applyRunStyle(
+      textRuns,
+      selection.start,
+      selection.end,
+      changes,
+    );
+    renderRunsToDom(root, nextRuns);
+    setSelectionOffsets(root, selection.start, selection.end);
+    if (isPreview) {
+      const fields = getTextFields(nextRuns);
+      onContentChange(id, fields.content ?? "", fields.runs);
+    } else {
+      onSetTextRuns?.(id, nextRuns);
+    }
+  };
+
+  const setStyle = (changes: Partial<TextStyle>) => {
+    if (selection && isRunStyleChange(changes)) {
+      setRunStyle(changes);
+    } else {
+      onSetTextStyle?.(id, changes);
+    }
+  };
+
+  const previewStyle = (changes: Partial<TextStyle>) => {
+    if (selection && isRunStyleChange(changes)) {
+      setRunStyle(changes, true);
+    } else {
+      onPreviewTextStyle?.(id, changes);
+    }
+  };
+
+  // Keep the picker showing a font that was removed from the library
+  const hasFontOption = fontOptions.some(
+    (option) => option.value === style.fontFamily,
+  );
+
+  // Keep focus (and the text selection) in the editor when clicking a
+  // toolbar button
+  const keepTextSelection = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+  };
+
+  const handleFontFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !onUploadFont) return;
+    const fontFamily = await onUploadFont(file);
+    if (fontFamily) setStyle({ fontFamily });
+  };
 
   // Auto-focus on newly created textboxes (when selected on first render)
   useEffect(() => {
@@ -77,11 +261,36 @@ export default function Textbox({
 
   // Sync content prop to contentEditable div
   useEffect(() => {
-    if (contentRef.current && document.activeElement !== contentRef.current) {
-      // Only update if not currently focused (to avoid disrupting user input)
-      contentRef.current.textContent = content;
+    const root = contentRef.current;
+    if (root && document.activeElement !== root) {
+      // Only update if not currently focused (to avoid disrupting user input),
+      // and leave a DOM that already shows these runs (and any selection in
+      // it) alone
+      const nextRuns = normalizeRuns(getTextRuns({ content, runs }));
+      const shownRuns = readRunsFromDom(root, fontSize);
+      if (JSON.stringify(shownRuns) !== JSON.stringify(nextRuns)) {
+        renderRunsToDom(root, nextRuns);
+      }
     }
-  }, [content]);
+  }, [content, runs, fontSize]);
+
+  // Track the text selection while this textbox is selected. A selection
+  // outside the editor (e.g. in the style panel) keeps the last one.
+  useEffect(() => {
+    if (!isSelected) return;
+    const handleSelectionChange = () => {
+      const root = contentRef.current;
+      const offsets = root && getSelectionOffsets(root);
+      if (offsets) {
+        setTextSelection(offsets.start === offsets.end ? null : offsets);
+      }
+    };
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => {
+      document.removeEventListener("selectionchange", handleSelectionChange);
+      setTextSelection(null);
+    };
+  }, [isSelected]);
 
   // Use auto-sizing hook
   useAutoSizing(
@@ -91,8 +300,36 @@ export default function Textbox({
   );
 
   const handleInput = (e: React.FormEvent<HTMLDivElement>) => {
-    const target = e.currentTarget;
-    onContentChange(id, target.textContent || "");
+    const fields = getTextFields(readRunsFromDom(e.currentTarget, fontSize));
+    onContentChange(id, fields.content ?? "", fields.runs);
+  };
+
+  // Pasted HTML is reduced to runs (color, bold, italic, size) rather than
+  // inserted as is; plain text takes on the style where it is pasted
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    // Images are pasted onto the canvas by the canvas-wide paste handler
+    if (e.clipboardData.files.length > 0) return;
+
+    const root = e.currentTarget;
+    const html = e.clipboardData.getData("text/html");
+    const text = e.clipboardData.getData("text/plain").replace(/\r\n?/g, "\n");
+    if (!html && !text) return;
+    e.preventDefault();
+
+    const current = readRunsFromDom(root, fontSize);
+    const { start, end } = getSelectionOffsets(root) ?? {
+      start: getRunsText(current).length,
+      end: getRunsText(current).length,
+    };
+    const pasted = html
+      ? readRunsFromHtml(html)
+      : [{ ...getRunStyleAt(current, Math.max(0, start - 1)), text }];
+    const nextRuns = insertRuns(current, pasted, start, end);
+    const caret = start + getRunsText(pasted).length;
+
+    renderRunsToDom(root, nextRuns);
+    setSelectionOffsets(root, caret, caret);
+    onSetTextRuns?.(id, nextRuns);
   };
 
   const handleFocus = () => {
@@ -103,23 +340,6 @@ export default function Textbox({
     onBlur(id);
   };
 
-  // Handle keyboard rotation (arrow keys)
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
-    // Only handle rotation if the outer div is focused (not content being edited)
-    const isEditingText = document.activeElement === contentRef.current;
-    if (isEditingText) return;
-
-    if (isSelected && onRotate) {
-      if (e.key === "ArrowLeft") {
-        e.preventDefault();
-        onRotate(id, -5);
-      } else if (e.key === "ArrowRight") {
-        e.preventDefault();
-        onRotate(id, 5);
-      }
-    }
-  };
-
   const handleOuterMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
     mouseDownPosRef.current = { x: e.clientX, y: e.clientY };
     onMouseDown?.(e);
@@ -127,8 +347,14 @@ export default function Textbox({
 
   const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
     e.stopPropagation();
-    // If this was a click (not a drag) on an already-selected textbox, enter edit mode
-    if (mouseDownPosRef.current && isSelected && contentRef.current) {
+    // If this was a click (not a drag) on an already-selected textbox, enter
+    // edit mode. Clicks within a group selection keep the group selected.
+    if (
+      mouseDownPosRef.current &&
+      isSelected &&
+      !isMultiSelected &&
+      contentRef.current
+    ) {
       const dx = e.clientX - mouseDownPosRef.current.x;
       const dy = e.clientY - mouseDownPosRef.current.y;
       if (Math.sqrt(dx * dx + dy * dy) < 5) {
@@ -148,19 +374,19 @@ export default function Textbox({
         top: `${y}px`,
         transform: `rotate(${rotation}deg)`,
         width: width ? `${width}px` : "auto",
+        height: textSizing !== "auto" && height ? `${height}px` : undefined,
         minWidth: "80px",
-        cursor: isDragging ? "grabbing" : "move",
+        cursor: locked ? "default" : isDragging ? "grabbing" : "move",
         willChange: isDragging ? "transform" : "auto",
       }}
       onMouseDown={handleOuterMouseDown}
       onClick={handleClick}
-      onKeyDown={handleKeyDown}
       tabIndex={0}
       data-element-id={id}
       data-element-type="textbox"
     >
       {/* Hover indicator (when not selected) */}
-      {!isSelected && (
+      {!isSelected && !locked && (
         <div className="absolute inset-0 border-2 border-gray-400 rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
       )}
 
@@ -171,21 +397,43 @@ export default function Textbox({
         </div>
       )}
 
+      {/* Lock badge */}
+      {locked && (
+        <div className="absolute -top-6 left-0 bg-gray-700 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+          <Lock size={12} />
+        </div>
+      )}
+
       {/* Textbox content */}
       <div
         ref={contentRef}
-        contentEditable
+        contentEditable={!locked}
         suppressContentEditableWarning
         onInput={handleInput}
+        onPaste={handlePaste}
         onFocus={handleFocus}
         onBlur={handleBlur}
         spellCheck={false}
-        onMouseDown={(e) => e.stopPropagation()}
-        className={`p-2 text-base outline-none transition-all rounded cursor-text wrap-break-word select-text ${
-          textColor === "white" ? "text-white" : "text-black"
-        } ${fontFamily === "comic-sans" ? "font-comic-sans" : ""} ${italic ? "italic" : ""}`}
+        onMouseDown={locked ? undefined : (e) => e.stopPropagation()}
+        className={`p-2 text-base outline-none transition-all rounded wrap-break-word ${
+          locked ? "cursor-default" : "cursor-text select-text"
+        } ${style.italic ? "italic" : ""}`}
         style={{
+          fontFamily: getFontStack(style.fontFamily),
           fontSize: `${fontSize}px`,
+          color: style.color,
+          fontWeight: style.bold ? 700 : 400,
+          textDecoration: style.underline ? "underline" : undefined,
+          textAlign: style.align,
+          letterSpacing: `${style.letterSpacing}px`,
+          lineHeight: style.lineHeight,
+          textShadow: getTextShadowCss(style.shadow),
+          textTransform: style.allCaps ? "uppercase" : undefined,
+          // Draw the outline behind the fill so it doesn't eat into glyphs
+          WebkitTextStroke: style.strokeWidth
+            ? `${style.strokeWidth}px ${style.strokeColor}`
+            : undefined,
+          paintOrder: "stroke fill",
           minHeight: "40px",
           whiteSpace: "pre-wrap",
           wordWrap: "break-word",
@@ -193,62 +441,195 @@ export default function Textbox({
         data-placeholder="Click to edit..."
       />
 
-      {/* Selection indicator and controls */}
-      {isSelected && (
+      {/* Selection controls, none while locked */}
+      {isSelected && !locked && (
         <div className="absolute inset-0 pointer-events-none">
-          {/* Text color toggle button */}
-          <button
-            className={`absolute -top-7 left-0 text-white text-xs rounded px-1.5 py-0.5 cursor-pointer pointer-events-auto transition-colors ${
-              textColor === "white"
-                ? "bg-blue-700 hover:bg-blue-800"
-                : "bg-blue-500 hover:bg-blue-600"
-            }`}
-            onMouseDown={(e) => e.stopPropagation()}
-            onClick={(e) => {
-              e.stopPropagation();
-              onToggleTextColor?.(id);
-            }}
-          >
-            <span>
-              {textColor === "black" ? <Moon size={16} /> : <Sun size={16} />}
-            </span>
-          </button>
-          {/* Italic toggle button */}
-          <button
-            className={`absolute -top-7 left-8 text-white text-xs rounded px-1.5 py-0.5 cursor-pointer pointer-events-auto transition-colors ${
-              italic
-                ? "bg-blue-700 hover:bg-blue-800"
-                : "bg-blue-500 hover:bg-blue-600"
-            }`}
-            onMouseDown={(e) => e.stopPropagation()}
-            onClick={(e) => {
-              e.stopPropagation();
-              onToggleItalic?.(id);
-            }}
-          >
-            <span>
+          <div className="absolute -top-7 left-0 flex items-center gap-1 pointer-events-auto">
+            {/* Text color, opens the full style panel */}
+            <button
+              className="w-6 h-6 rounded border-2 border-blue-500 cursor-pointer"
+              style={{ backgroundColor: shownStyle.color }}
+              title={selection ? "Color of selected text" : "Text color"}
+              onMouseDown={keepTextSelection}
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsStylePanelOpen((open) => !open);
+              }}
+            />
+            <button
+              className={`text-white text-xs rounded px-1.5 py-0.5 cursor-pointer transition-colors ${
+                shownStyle.bold
+                  ? "bg-blue-700 hover:bg-blue-800"
+                  : "bg-blue-500 hover:bg-blue-600"
+              }`}
+              title="Bold"
+              onMouseDown={keepTextSelection}
+              onClick={(e) => {
+                e.stopPropagation();
+                setStyle({ bold: !shownStyle.bold });
+              }}
+            >
+              <Bold size={16} />
+            </button>
+            <button
+              className={`text-white text-xs rounded px-1.5 py-0.5 cursor-pointer transition-colors ${
+                shownStyle.italic
+                  ? "bg-blue-700 hover:bg-blue-800"
+                  : "bg-blue-500 hover:bg-blue-600"
+              }`}
+              title="Italic"
+              onMouseDown={keepTextSelection}
+              onClick={(e) => {
+                e.stopPropagation();
+                setStyle({ italic: !shownStyle.italic });
+              }}
+            >
               <Italic size={16} />
-            </span>
-          </button>
-          {/* Font toggle button */}
-          <button
-            className="absolute -top-7 left-16 bg-blue-500 text-white text-xs rounded px-1.5 py-0.5 cursor-pointer pointer-events-auto hover:bg-blue-600 transition-colors"
-            onMouseDown={(e) => e.stopPropagation()}
-            onClick={(e) => {
-              e.stopPropagation();
-              onToggleFont?.(id);
-            }}
-          >
-            {fontFamily === "comic-sans" ? "Comic" : "Inter"}
-          </button>
-
-          {/* Rotate handle at bottom-right */}
-          <div
-            className="absolute bottom-0 right-0 w-3 h-3 bg-blue-500 rounded-full -mr-1.5 -mb-1.5 cursor-grab pointer-events-auto"
-            onMouseDown={(e) => {
-              e.stopPropagation();
-              onRotateHandleMouseDown?.(e);
-            }}
+            </button>
+            <button
+              className={`text-white text-xs rounded px-1.5 py-0.5 cursor-pointer transition-colors ${
+                style.underline
+                  ? "bg-blue-700 hover:bg-blue-800"
+                  : "bg-blue-500 hover:bg-blue-600"
+              }`}
+              title="Underline"
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                setStyle({ underline: !style.underline });
+              }}
+            >
+              <Underline size={16} />
+            </button>
+            <button
+              className={`text-white text-xs rounded px-1.5 py-0.5 cursor-pointer transition-colors ${
+                style.allCaps
+                  ? "bg-blue-700 hover:bg-blue-800"
+                  : "bg-blue-500 hover:bg-blue-600"
+              }`}
+              title="All caps"
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                setStyle({ allCaps: !style.allCaps });
+              }}
+            >
+              <CaseUpper size={16} />
+            </button>
+            <button
+              className="bg-blue-500 text-white text-xs rounded px-1.5 py-0.5 cursor-pointer hover:bg-blue-600 transition-colors"
+              title="Alignment"
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                setStyle({ align: next(ALIGN_CYCLE, style.align) });
+              }}
+            >
+              <AlignIcon size={16} />
+            </button>
+            {/* Size of the selected text, relative to the textbox's */}
+            {selection && (
+              <select
+                value={selectionScale}
+                className="bg-blue-500 text-white text-xs rounded px-1 py-0.5 cursor-pointer hover:bg-blue-600 transition-colors"
+                title="Size of selected text"
+                aria-label="Size of selected text"
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setRunStyle({ scale: Number(e.target.value) })}
+              >
+                {RUN_SCALES.map((scale) => (
+                  <option key={scale} value={scale}>
+                    {Math.round(scale * 100)}%
+                  </option>
+                ))}
+                {!RUN_SCALES.includes(selectionScale) && (
+                  <option value={selectionScale}>
+                    {Math.round(selectionScale * 100)}%
+                  </option>
+                )}
+              </select>
+            )}
+            {/* Font picker */}
+            <select
+              value={style.fontFamily}
+              className="max-w-28 bg-blue-500 text-white text-xs rounded px-1 py-0.5 cursor-pointer hover:bg-blue-600 transition-colors"
+              title="Font"
+              aria-label="Font"
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => {
+                if (e.target.value === UPLOAD_FONT_OPTION) {
+                  fontInputRef.current?.click();
+                } else {
+                  setStyle({ fontFamily: e.target.value as FontFamily });
+                }
+              }}
+            >
+              {fontOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+              {!hasFontOption && (
+                <option value={style.fontFamily}>Missing font</option>
+              )}
+              {onUploadFont && (
+                <option value={UPLOAD_FONT_OPTION}>Upload font...</option>
+              )}
+            </select>
+            <input
+              ref={fontInputRef}
+              type="file"
+              accept={FONT_FILE_EXTENSIONS.join(",")}
+              onChange={handleFontFile}
+              className="hidden"
+            />
+            {/* Box sizing toggle button */}
+            <button
+              className="bg-blue-500 text-white text-xs rounded px-1.5 py-0.5 cursor-pointer hover:bg-blue-600 transition-colors"
+              title={SIZING_TITLES[textSizing]}
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                onSetTextSizing?.(id, next(SIZING_CYCLE, textSizing));
+              }}
+            >
+              {SIZING_LABELS[textSizing]}
+            </button>
+            <button
+              className={`text-white text-xs rounded px-1.5 py-0.5 cursor-pointer transition-colors ${
+                isStylePanelOpen
+                  ? "bg-blue-700 hover:bg-blue-800"
+                  : "bg-blue-500 hover:bg-blue-600"
+              }`}
+              title="More text styles"
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsStylePanelOpen((open) => !open);
+              }}
+            >
+              <SlidersHorizontal size={16} />
+            </button>
+          </div>
+
+          {isStylePanelOpen && (
+            <TextStylePanel
+              style={shownStyle}
+              fontSize={fontSize}
+              onChange={setStyle}
+              onPreview={previewStyle}
+              onStartEyedropper={() => onStartEyedropper?.(id)}
+              isEyedropperActive={isEyedropperActive}
+            />
+          )}
+
+          <TransformHandles
+            rotation={rotation}
+            handles={resizeHandles}
+            onResizeHandleMouseDown={onResizeHandleMouseDown}
+            onRotateHandleMouseDown={onRotateHandleMouseDown}
           />
         </div>
       )}
@@ -0,0 +1,97 @@
+import type { ResizeHandle } from "../../types/canvas";
+
+const RESIZE_HANDLES: ResizeHandle[] = [
+  "nw",
+  "n",
+  "ne",
+  "e",
+  "se",
+  "s",
+  "sw",
+  "w",
+];
+
+const HANDLE_POSITIONS: Record<ResizeHandle, string> = {
+  nw: "top-0 left-0",
+  n: "top-0 left-1/2",
+  ne: "top-0 left-full",
+  e: "top-1/2 left-full",
+  se: "top-full left-full",
+  s: "top-full left-1/2",
+  sw: "top-full left-0",
+  w: "top-1/2 left-0",
+};
+
+// Direction of each handle in degrees, clockwise from east
+const HANDLE_ANGLES: Record<ResizeHandle, number> = {
+  e: 0,
+  se: 45,
+  s: 90,
+  sw: 135,
+  w: 180,
+  nw: 225,
+  n: 270,
+  ne: 315,
+};
+
+const RESIZE_CURSORS = ["ew-resize", "nwse-resize", "ns-resize", "nesw-resize"];
+
+// Resize cursor pointing the way a handle actually drags once the element
+// is rotated
+function getResizeCursor(handle: ResizeHandle, rotation: number) {
+  const step = Math.round((HANDLE_ANGLES[handle] + rotation) / 45);
+  return RESIZE_CURSORS[((step % 4) + 4) % 4];
+}
+
+interface TransformHandlesProps {
+  rotation?: number;
+  // Textboxes that grow with their text only resize from some handles
+  handles?: ResizeHandle[];
+  onResizeHandleMouseDown?: (
+    e: React.MouseEvent<HTMLDivElement>,
+    handle: ResizeHandle,
+  ) => void;
+  onRotateHandleMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void;
+}
+
+// Resize handles on the edges and corners of a selected element, plus a
+// rotate handle below it. Handles without a callback aren't shown.
+export default function TransformHandles({
+  rotation = 0,
+  handles = RESIZE_HANDLES,
+  onResizeHandleMouseDown,
+  onRotateHandleMouseDown,
+}: TransformHandlesProps) {
+  return (
+    <>
+      {onResizeHandleMouseDown &&
+        handles.map((handle) => (
+          <div
+            key={handle}
+            className={`absolute ${HANDLE_POSITIONS[handle]} w-2.5 h-2.5 -ml-[5px] -mt-[5px] bg-white border border-blue-500 rounded-sm pointer-events-auto`}
+            style={{ cursor: getResizeCursor(handle, rotation) }}
+            onMouseDown={(e) => {
+              e.stopPropagation();
+              e.preventDefault();
+              onResizeHandleMouseDown(e, handle);
+            }}
+          />
+        ))}
+
+      {/* Rotate handle, hanging below the bottom edge */}
+      {onRotateHandleMouseDown && (
+        <>
+          <div className="absolute top-full left-1/2 w-px h-4 bg-blue-500 pointer-events-none" />
+          <div
+            className="absolute top-full left-1/2 mt-4 -ml-1.5 w-3 h-3 bg-blue-500 rounded-full cursor-grab pointer-events-auto"
+            title="Rotate"
+            onMouseDown={(e) => {
+              e.stopPropagation();
+              onRotateHandleMouseDown(e);
+            }}
+          />
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState, useRef, useEffect } from "react";
+import { X, Download } from "lucide-react";
+import type { ExportScope } from "../../hooks/useCanvasExport";
+import {
+  EXPORT_FORMATS,
+  getDefaultPixelRatio,
+  type ExportFormat,
+  type ExportOptions,
+} from "../../utils/exportCanvas";
+
+const PIXEL_RATIOS: ExportOptions["pixelRatio"][] = [1, 2, 3];
+
+interface ExportDialogProps {
+  onClose: () => void;
+  onExport: (scope: ExportScope, options: ExportOptions) => Promise<void>;
+  hasSelection: boolean;
+}
+
+export default function ExportDialog({
+  onClose,
+  onExport,
+  hasSelection,
+}: ExportDialogProps) {
+  const [scope, setScope] = useState<ExportScope>(
+    hasSelection ? "selection" : "all",
+  );
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const [quality, setQuality] = useState(0.92);
+  const [pixelRatio, setPixelRatio] = useState(getDefaultPixelRatio);
+  const [padding, setPadding] = useState(16);
+  const [transparent, setTransparent] = useState(true);
+  const [backgroundColor, setBackgroundColor] = useState("#ffffff");
+  const [isExporting, setIsExporting] = useState(false);
+  const dialogRef = useRef<HTMLDialogElement>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (dialog && !dialog.open) {
+      dialog.showModal();
+    }
+
+    const handleCancel = (e: Event) => {
+      e.preventDefault();
+      onClose();
+    };
+    dialog?.addEventListener("cancel", handleCancel);
+    return () => dialog?.removeEventListener("cancel", handleCancel);
+  }, [onClose]);
+
+  const handleOverlayClick = (e: React.MouseEvent<HTMLDialogElement>) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(scope, {
+        format,
+        padding,
+        background: transparent ? null : backgroundColor,
+        quality,
+        pixelRatio,
+      });
+      onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <dialog
+      ref={dialogRef}
+      onClick={handleOverlayClick}
+      className="m-auto bg-transparent p-0 backdrop:bg-black/70 backdrop:backdrop-blur-xl"
+    >
+      <div className="bg-white rounded-2xl shadow-2xl p-6 w-80">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-800">Export</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg hover:bg-gray-100 transition-colors text-gray-500"
+            aria-label="Close export"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4 text-sm text-gray-700">
+          <fieldset className="space-y-1">
+            <legend className="font-medium mb-1">Export</legend>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={scope === "selection"}
+                disabled={!hasSelection}
+                onChange={() => setScope("selection")}
+              />
+              Selected elements
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={scope === "all"}
+                onChange={() => setScope("all")}
+              />
+              Whole canvas
+            </label>
+          </fieldset>
+
+          <fieldset>
+            <legend className="font-medium mb-1">Format</legend>
+            <div className="grid grid-cols-4 gap-1">
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((key) => (
+                <button
+                  key={key}
+                  onClick={() => setFormat(key)}
+                  className={`px-2 py-1.5 rounded-lg text-xs transition-colors ${
+                    format === key
+                      ? "bg-emerald-500 text-white"
+                      : "bg-gray-100 hover:bg-gray-200"
+                  }`}
+                  aria-pressed={format === key}
+                >
+                  {EXPORT_FORMATS[key].label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          {(format === "jpeg" || format === "webp") && (
+            <label className="flex items-center justify-between gap-2">
+              <span className="font-medium">Quality</span>
+              <input
+                type="range"
+                min={0.1}
+                max={1}
+                step={0.01}
+                value={quality}
+                onChange={(e) => setQuality(Number(e.target.value))}
+                className="flex-1"
+              />
+              <span className="w-10 text-right tabular-nums">
+                {Math.round(quality * 100)}%
+              </span>
+            </label>
+          )}
+
+          {format !== "svg" && (
+            <fieldset>
+              <legend className="font-medium mb-1">Scale</legend>
+              <div className="grid grid-cols-3 gap-1">
+                {PIXEL_RATIOS.map((ratio) => (
+                  <button
+                    key={ratio}
+                    onClick={() => setPixelRatio(ratio)}
+                    className={`px-2 py-1.5 rounded-lg text-xs transition-colors ${
+                      pixelRatio === ratio
+                        ? "bg-emerald-500 text-white"
+                        : "bg-gray-100 hover:bg-gray-200"
+                    }`}
+                    aria-pressed={pixelRatio === ratio}
+                  >
+                    {ratio}x
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          <label className="flex items-center justify-between gap-2">
+            <span className="font-medium">Padding</span>
+            <input
+              type="number"
+              min={0}
+              max={500}
+              value={padding}
+              onChange={(e) =>
+                setPadding(Math.max(0, Number(e.target.value) || 0))
+              }
+              className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-right"
+            />
+          </label>
+
+          <fieldset className="space-y-1">
+            <legend className="font-medium mb-1">Background</legend>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="export-background"
+                checked={transparent}
+                disabled={format === "jpeg"}
+                onChange={() => setTransparent(true)}
+              />
+              {format === "jpeg" ? "Transparent (white for JPEG)" : "Transparent"}
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="export-background"
+                checked={!transparent}
+                onChange={() => setTransparent(false)}
+              />
+              Solid
+              <input
+                type="color"
+                value={backgroundColor}
+                onChange={(e) => {
+                  setBackgroundColor(e.target.value);
+                  setTransparent(false);
+                }}
+                className="w-8 h-6 rounded border border-gray-300"
+                aria-label="Background color"
+              />
+            </label>
+          </fieldset>
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center justify-center gap-2 w-full px-4 py-2.5 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-white text-sm transition-colors"
+          >
+            <Download size={16} />
+            {isExporting ? "Exporting..." : "Export"}
+          </button>
+        </div>
+      </div>
+    </dialog>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import {
+  Layers,
+  ChevronDown,
+  ChevronRight,
+  Eye,
+  EyeOff,
+  Lock,
+  LockOpen,
+  Type,
+  Square,
+  Circle,
+  Triangle,
+  RectangleHorizontal,
+} from "lucide-react";
+import { DEFAULT_FILL, type ShapeKind } from "../Canvas/Shape";
+import type { CanvasElementData } from "../../types/canvas";
+
+const SHAPE_ICONS: Record<ShapeKind, typeof Square> = {
+  rectangle: RectangleHorizontal,
+  square: Square,
+  circle: Circle,
+  triangle: Triangle,
+};
+
+const SHAPE_LABELS: Record<ShapeKind, string> = {
+  rectangle: "Rectangle",
+  square: "Square",
+  circle: "Circle",
+  triangle: "Triangle",
+};
+
+// Name shown for an element that hasn't been renamed
+function getDefaultName(el: CanvasElementData) {
+  if (el.type === "textbox") {
+    const text = el.content?.replace(/\s+/g, " ").trim();
+    return text || "Empty text";
+  }
+  if (el.type === "shape") return SHAPE_LABELS[el.shape ?? "rectangle"];
+  return "Image";
+}
+
+function LayerThumbnail({ element }: { element: CanvasElementData }) {
+  if (element.type === "image" && element.src) {
+    return (
+      <img
+        src={element.src}
+        alt=""
+        className="w-7 h-7 object-cover rounded border border-gray-200 shrink-0"
+        draggable={false}
+      />
+    );
+  }
+
+  if (element.type === "shape") {
+    const shape = element.shape ?? "rectangle";
+    const Icon = SHAPE_ICONS[shape];
+    const fill = element.fillColor || DEFAULT_FILL[shape];
+    return (
+      <div className="w-7 h-7 flex items-center justify-center shrink-0">
+        <Icon size={18} color={fill} fill={fill} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-7 h-7 flex items-center justify-center shrink-0 text-gray-500">
+      <Type size={16} />
+    </div>
+  );
+}
+
+interface DropTarget {
+  id: string;
+  position: "front" | "behind";
+}
+
+interface LayersPanelProps {
+  elements: CanvasElementData[];
+  selectedElementIds: Set<string>;
+  onSelect: (id: string, additive: boolean) => void;
+  onMoveLayer: (
+    id: string,
+    targetId: string,
+    position: "front" | "behind",
+  ) => void;
+  onRename: (id: string, name: string) => void;
+  onToggleHidden: (id: string) => void;
+  onToggleLocked: (id: string) => void;
+}
+
+// Collapsible list of the board's elements, frontmost first. Rows select
+// their element, drag to restack, rename on double-click, and toggle
+// visibility and locking.
+export default function LayersPanel({
+  elements,
+  selectedElementIds,
+  onSelect,
+  onMoveLayer,
+  onRename,
+  onToggleHidden,
+  onToggleLocked,
+}: LayersPanelProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const layers = [...elements].reverse();
+
+  const handleDragOver = (
+    e: React.DragEvent<HTMLLIElement>,
+    targetId: string,
+  ) => {
+    if (!draggedId || draggedId === targetId) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    // The list runs front to back, so the upper half drops in front
+    const position =
+      e.clientY < rect.top + rect.height / 2 ? "front" : "behind";
+    if (dropTarget?.id !== targetId || dropTarget.position !== position) {
+      setDropTarget({ id: targetId, position });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLIElement>) => {
+    e.preventDefault();
+    if (draggedId && dropTarget) {
+      onMoveLayer(draggedId, dropTarget.id, dropTarget.position);
+    }
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <aside
+      className="fixed left-4 top-32 w-64 bg-white rounded-xl shadow-xl border border-gray-200 z-50 select-none flex flex-col max-h-[calc(100vh-10rem)]"
+      aria-label="Layers"
+    >
+      <button
+        className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 rounded-xl"
+        onClick={() => setCollapsed((v) => !v)}
+        aria-expanded={!collapsed}
+      >
+        <Layers size={16} />
+        <span className="flex-1 text-left">Layers</span>
+        <span className="text-xs font-normal text-gray-400">
+          {elements.length}
+        </span>
+        {collapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {!collapsed && (
+        <ul className="overflow-y-auto px-1 pb-1 border-t border-gray-100">
+          {layers.length === 0 && (
+            <li className="px-3 py-2 text-xs text-gray-400">
+              Nothing on this board yet
+            </li>
+          )}
+
+          {layers.map((element) => {
+            const isSelected = selectedElementIds.has(element.id);
+            const isDropTarget = dropTarget?.id === element.id;
+            const name = element.name || getDefaultName(element);
+
+            return (
+              <li
+                key={element.id}
+                className={`relative flex items-center gap-2 px-2 py-1 mt-1 rounded-lg cursor-pointer text-sm ${
+                  isSelected
+                    ? "bg-blue-50 text-blue-700"
+                    : "text-gray-700 hover:bg-gray-100"
+                } ${element.hidden ? "opacity-50" : ""} ${
+                  draggedId === element.id ? "opacity-40" : ""
+                }`}
+                draggable={editingId !== element.id}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDraggedId(element.id);
+                }}
+                onDragOver={(e) => handleDragOver(e, element.id)}
+                onDrop={handleDrop}
+                onDragEnd={() => {
+                  setDraggedId(null);
+                  setDropTarget(null);
+                }}
+                onClick={(e) =>
+                  onSelect(element.id, e.shiftKey || e.ctrlKey || e.metaKey)
+                }
+              >
+                {/* Drop indicator */}
+                {isDropTarget && (
+                  <div
+                    className={`absolute left-2 right-2 h-0.5 bg-blue-500 pointer-events-none ${
+                      dropTarget.position === "front"
+                        ? "-top-0.5"
+                        : "-bottom-0.5"
+                    }`}
+                  />
+                )}
+
+                <LayerThumbnail element={element} />
+
+                {editingId === element.id ? (
+                  <input
+                    className="flex-1 min-w-0 px-1 py-0.5 border border-blue-400 rounded text-sm text-gray-800 outline-none"
+                    defaultValue={element.name ?? ""}
+                    placeholder={getDefaultName(element)}
+                    autoFocus
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={(e) => {
+                      onRename(element.id, e.currentTarget.value);
+                      setEditingId(null);
+                    }}
+                    onKeyDown={(e) => {
+                      e.stopPropagation();
+                      if (e.key === "Enter") e.currentTarget.blur();
+                      if (e.key === "Escape") {
+                        e.currentTarget.value = element.name ?? "";
+                        e.currentTarget.blur();
+                      }
+                    }}
+                  />
+                ) : (
+                  <span
+                    className="flex-1 min-w-0 truncate"
+                    title={name}
+                    onDoubleClick={() => setEditingId(element.id)}
+                  >
+                    {name}
+                  </span>
+                )}
+
+                <button
+                  className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-200"
+                  title={element.hidden ? "Show" : "Hide"}
+                  aria-label={element.hidden ? "Show" : "Hide"}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleHidden(element.id);
+                  }}
+                >
+                  {element.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+                </button>
+                <button
+                  className={`p-1 rounded hover:bg-gray-200 ${
+                    element.locked
+                      ? "text-gray-700"
+                      : "text-gray-400 hover:text-gray-700"
+                  }`}
+                  title={element.locked ? "Unlock" : "Lock"}
+                  aria-label={element.locked ? "Unlock" : "Lock"}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleLocked(element.id);
+                  }}
+                >
+                  {element.locked ? <Lock size={14} /> : <LockOpen size={14} />}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+}
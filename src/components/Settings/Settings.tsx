@@ -1,15 +1,28 @@
 import { useState, useRef, useEffect } from "react";
-import { X, Trash2 } from "lucide-react";
+import { X, Trash2, Upload } from "lucide-react";
+import type { StoredFont } from "../../db";
+import { FONT_FILE_EXTENSIONS } from "../../db/fonts";
+import { getFontFaceName } from "../../utils/textLayout";
 
 interface SettingsProps {
   onClose: () => void;
   onCleanupImages: () => Promise<number>;
+  customFonts: StoredFont[];
+  onUploadFont: (file: File) => Promise<unknown>;
+  onDeleteFont: (id: string) => void;
 }
 
-export default function Settings({ onClose, onCleanupImages }: SettingsProps) {
+export default function Settings({
+  onClose,
+  onCleanupImages,
+  customFonts,
+  onUploadFont,
+  onDeleteFont,
+}: SettingsProps) {
   const [cleanupResult, setCleanupResult] = useState<string | null>(null);
   const [isCleaning, setIsCleaning] = useState(false);
   const dialogRef = useRef<HTMLDialogElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const dialog = dialogRef.current;
@@ -80,6 +93,54 @@ export default function Settings({ onClose, onCleanupImages }: SettingsProps) {
               <p className="text-sm text-gray-500 px-1">{cleanupResult}</p>
             )}
           </div>
+
+          <div className="mt-6 space-y-2">
+            <h3 className="text-sm font-semibold text-gray-700 px-1">Fonts</h3>
+            {customFonts.length === 0 && (
+              <p className="text-sm text-gray-400 px-1">
+                No uploaded fonts yet
+              </p>
+            )}
+            {customFonts.map((font) => (
+              <div
+                key={font.id}
+                className="flex items-center gap-2 px-1 text-gray-700"
+              >
+                <span
+                  className="flex-1 truncate"
+                  style={{ fontFamily: `"${getFontFaceName(font.id)}"` }}
+                >
+                  {font.name}
+                </span>
+                <button
+                  onClick={() => onDeleteFont(font.id)}
+                  className="p-1 rounded-lg hover:bg-red-50 text-red-500 transition-colors"
+                  aria-label={`Remove font ${font.name}`}
+                  title="Remove font"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <input
+              ref={fontInputRef}
+              type="file"
+              accept={FONT_FILE_EXTENSIONS.join(",")}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) onUploadFont(file);
+              }}
+              className="hidden"
+            />
+            <button
+              onClick={() => fontInputRef.current?.click()}
+              className="flex items-center gap-2 w-full px-4 py-2.5 bg-gray-100 hover:bg-gray-200 rounded-xl text-gray-700 text-sm transition-colors"
+            >
+              <Upload size={16} />
+              Upload font (TTF, OTF, WOFF2)
+            </button>
+          </div>
       </div>
     </dialog>
   );
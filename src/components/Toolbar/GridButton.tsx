@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from "react";
+import { Grid3x3, Check } from "lucide-react";
+import type { GridSettings } from "../../db";
+import { GRID_SIZES } from "../../utils/grid";
+
+interface GridButtonProps {
+  grid: GridSettings;
+  onChange: (changes: Partial<GridSettings>) => void;
+}
+
+export default function GridButton({ grid, onChange }: GridButtonProps) {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!rootRef.current) return;
+      if (!rootRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    window.addEventListener("mousedown", handleClickOutside);
+    return () => window.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const isActive = grid.visible || grid.snap;
+
+  return (
+    <div className="relative" ref={rootRef}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`p-2 text-white rounded-xl transition-colors ${
+          isActive
+            ? "bg-sky-500 hover:bg-sky-600"
+            : "bg-gray-300 hover:bg-gray-400"
+        }`}
+        title="Grid"
+        aria-label="Grid"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Grid3x3 />
+      </button>
+
+      {open && (
+        <div
+          className="absolute top-full left-1/2 -translate-x-1/2 mt-2 w-44 bg-white rounded-xl shadow-xl border border-gray-200 p-2 z-50"
+          role="menu"
+        >
+          {(
+            [
+              ["visible", "Show grid"],
+              ["snap", "Snap to grid"],
+            ] as const
+          ).map(([key, label]) => (
+            <button
+              key={key}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-gray-100 text-sm text-gray-800 w-full"
+              onClick={() => onChange({ [key]: !grid[key] })}
+              role="menuitemcheckbox"
+              aria-checked={grid[key]}
+            >
+              <span className="w-4">{grid[key] && <Check size={16} />}</span>
+              {label}
+            </button>
+          ))}
+
+          <div className="h-px bg-gray-200 my-1" />
+          <div className="px-3 py-1 text-xs text-gray-500">Grid size</div>
+          <div className="flex gap-1 px-2 pb-1">
+            {GRID_SIZES.map((size) => (
+              <button
+                key={size}
+                className={`flex-1 py-1 rounded-lg text-xs ${
+                  grid.size === size
+                    ? "bg-sky-500 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+                onClick={() => onChange({ size })}
+              >
+                {size}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
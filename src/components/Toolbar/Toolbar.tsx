@@ -1,10 +1,18 @@
-import { Settings as SettingsIcon } from "lucide-react";
+import { Link } from "react-router";
+import {
+  Settings as SettingsIcon,
+  Download,
+  ClipboardCopy,
+  LayoutGrid,
+} from "lucide-react";
 import AddTextboxButton from "./AddTextboxButton";
 import AddShapeButton from "./AddShapeButton";
 // import ClearButton from "./ClearButton";
 import UndoRedoButtons from "./UndoRedoButtons";
+import GridButton from "./GridButton";
 import gloopLogo from "../../assets/gloop.svg";
 import type { ShapeKind } from "../Canvas/Shape";
+import type { GridSettings } from "../../db";
 
 interface ToolbarProps {
   onAddTextbox: () => void;
@@ -15,6 +23,11 @@ interface ToolbarProps {
   canUndo?: boolean;
   canRedo?: boolean;
   onOpenSettings: () => void;
+  onOpenExport: () => void;
+  onCopyAsImage: () => void;
+  hasSelection?: boolean;
+  grid: GridSettings;
+  onSetGrid: (changes: Partial<GridSettings>) => void;
 }
 
 export default function Toolbar({
@@ -26,6 +39,11 @@ export default function Toolbar({
   canUndo = false,
   canRedo = false,
   onOpenSettings,
+  onOpenExport,
+  onCopyAsImage,
+  hasSelection = false,
+  grid,
+  onSetGrid,
 }: ToolbarProps) {
   return (
     <header
@@ -39,6 +57,14 @@ export default function Toolbar({
       <nav className="flex items-center justify-center gap-2">
         <img src={gloopLogo} className="h-10" />
         <div className="h-6 w-px bg-gray-300"></div>
+        <Link
+          to="/boards"
+          className="p-2 bg-gray-300 text-white rounded-xl hover:bg-gray-400 transition-colors"
+          title="All boards"
+          aria-label="All boards"
+        >
+          <LayoutGrid />
+        </Link>
         <UndoRedoButtons
           onUndo={onUndo}
           onRedo={onRedo}
@@ -47,7 +73,25 @@ export default function Toolbar({
         />
         <AddTextboxButton onClick={onAddTextbox} />
         <AddShapeButton onAddShape={onAddShape} />
+        <GridButton grid={grid} onChange={onSetGrid} />
         {/* <ClearButton onClick={onClearAll} /> */}
+        <button
+          onClick={onOpenExport}
+          className="p-2 bg-emerald-500 text-white rounded-xl hover:bg-emerald-600 transition-colors"
+          title="Export as image"
+          aria-label="Export"
+        >
+          <Download />
+        </button>
+        <button
+          onClick={onCopyAsImage}
+          disabled={!hasSelection}
+          className="p-2 bg-emerald-300 text-white rounded-xl hover:bg-emerald-400 disabled:bg-gray-100 disabled:cursor-not-allowed transition-colors"
+          title="Copy selection as image (Ctrl+Shift+C)"
+          aria-label="Copy selection as image"
+        >
+          <ClipboardCopy />
+        </button>
         <button
           onClick={onOpenSettings}
           className="p-2 bg-gray-300 text-white rounded-xl hover:bg-gray-400 transition-colors"
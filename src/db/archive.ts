@@ -0,0 +1,253 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import {
+  db,
+  type Board,
+  type GridSettings,
+  type StoredCanvasElement,
+} from './index';
+import { createBoard } from './boards';
+import type { CanvasElementData } from '../components/Canvas/CanvasElement';
+import { createId } from '../utils/ids';
+import { ELEMENT_SCHEMA_VERSION, readBoardElements, upgradeElement } from './schema';
+import { getCustomFontId } from '../utils/textLayout';
+
+// A .gloop file is a zip holding `manifest.json` plus one file per image
+// blob under `blobs/` and per uploaded font under `fonts/`. Bump the version
+// whenever the manifest shape changes.
+export const ARCHIVE_EXTENSION = '.gloop';
+export const ARCHIVE_VERSION = 3;
+
+const MANIFEST_PATH = 'manifest.json';
+
+export interface ArchiveManifest {
+  format: 'gloop';
+  version: number;
+  exportedAt: number;
+  // The board's grid settings are included since version 3
+  board: { name: string; grid?: GridSettings };
+  // ELEMENT_SCHEMA_VERSION of `elements`; archives that predate it are
+  // treated as version 0 and migrated on import
+  schemaVersion?: number;
+  // In stacking order, without `src` (object URLs don't survive a reload)
+  elements: CanvasElementData[];
+  // Image blobs, keyed by the `blobKey || id` the elements look them up by
+  blobs: { key: string; path: string; type: string }[];
+  // Uploaded fonts the elements use, keyed by font id (since version 2)
+  fonts?: { id: string; name: string; path: string }[];
+}
+
+// Drop fields that only make sense inside this browser's database
+function stripStorageFields(el: CanvasElementData): CanvasElementData {
+  const copy: Partial<StoredCanvasElement> = { ...el };
+  delete copy.src;
+  delete copy.boardId;
+  delete copy.order;
+  delete copy.storedAt;
+  delete copy.schemaVersion;
+  return copy as CanvasElementData;
+}
+
+function extensionFor(type: string) {
+  const subtype = type.split('/')[1]?.split('+')[0];
+  return subtype ? `.${subtype}` : '';
+}
+
+export async function exportBoardArchive(boardId: string): Promise<Blob> {
+  const board = await db.boards.get(boardId);
+  if (!board) throw new Error('Board not found');
+
+  // Migrated first, since the manifest is stamped with ELEMENT_SCHEMA_VERSION
+  const elements = (await readBoardElements(boardId)).map(stripStorageFields);
+
+  const files: Zippable = {};
+  const blobs: ArchiveManifest['blobs'] = [];
+  for (const el of elements) {
+    if (el.type !== 'image') continue;
+    const key = el.blobKey || el.id;
+    if (blobs.some((b) => b.key === key)) continue;
+
+    const imageBlob = await db.imageBlobs.get(key);
+    if (!imageBlob) continue;
+
+    const path = `blobs/${blobs.length}${extensionFor(imageBlob.blob.type)}`;
+    // Images are already compressed; store them as-is
+    files[path] = [new Uint8Array(await imageBlob.blob.arrayBuffer()), { level: 0 }];
+    blobs.push({ key, path, type: imageBlob.blob.type });
+  }
+
+  const fontIds = new Set(
+    elements.flatMap((el) => {
+      const fontId = el.textStyle?.fontFamily && getCustomFontId(el.textStyle.fontFamily);
+      return fontId ? [fontId] : [];
+    }),
+  );
+  const fonts: NonNullable<ArchiveManifest['fonts']> = [];
+  for (const fontId of fontIds) {
+    const font = await db.fonts.get(fontId);
+    if (!font) continue;
+
+    const path = `fonts/${fonts.length}`;
+    files[path] = new Uint8Array(await font.blob.arrayBuffer());
+    fonts.push({ id: font.id, name: font.name, path });
+  }
+
+  const manifest: ArchiveManifest = {
+    format: 'gloop',
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    board: { name: board.name, grid: board.grid },
+    schemaVersion: ELEMENT_SCHEMA_VERSION,
+    elements,
+    blobs,
+    fonts,
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest));
+
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Check the manifest's shape before anything is written to the database
+function validateManifest(
+  value: unknown,
+  files: Record<string, Uint8Array>,
+): ArchiveManifest {
+  if (!isObject(value) || value.format !== 'gloop') {
+    throw new Error('Not a Gloop archive');
+  }
+  if (typeof value.version !== 'number' || value.version > ARCHIVE_VERSION) {
+    throw new Error('This archive was made by a newer version of Gloop');
+  }
+  if (!isObject(value.board) || typeof value.board.name !== 'string') {
+    throw new Error('Archive is missing its board name');
+  }
+  const grid = value.board.grid;
+  if (
+    grid !== undefined &&
+    !(
+      isObject(grid) &&
+      typeof grid.visible === 'boolean' &&
+      typeof grid.snap === 'boolean' &&
+      typeof grid.size === 'number' &&
+      grid.size > 0
+    )
+  ) {
+    throw new Error('Archive has invalid grid settings');
+  }
+  if (!Array.isArray(value.elements) || !Array.isArray(value.blobs)) {
+    throw new Error('Archive manifest is malformed');
+  }
+
+  for (const blob of value.blobs) {
+    if (
+      !isObject(blob) ||
+      typeof blob.key !== 'string' ||
+      typeof blob.path !== 'string' ||
+      typeof blob.type !== 'string' ||
+      !files[blob.path]
+    ) {
+      throw new Error('Archive is missing image data');
+    }
+  }
+
+  if (value.fonts !== undefined) {
+    if (!Array.isArray(value.fonts)) throw new Error('Archive manifest is malformed');
+    for (const font of value.fonts) {
+      if (
+        !isObject(font) ||
+        typeof font.id !== 'string' ||
+        typeof font.name !== 'string' ||
+        typeof font.path !== 'string' ||
+        !files[font.path]
+      ) {
+        throw new Error('Archive is missing font data');
+      }
+    }
+  }
+
+  // Bring elements up to the current schema, rejecting the whole archive
+  // if any of them can't be rendered
+  const fromVersion = typeof value.schemaVersion === 'number' ? value.schemaVersion : 0;
+  const blobKeys = new Set(value.blobs.map((b: { key: string }) => b.key));
+  const elements = value.elements.map((record: unknown) => {
+    const result = upgradeElement(record, fromVersion);
+    if (!result.ok) {
+      throw new Error(`Archive contains an invalid element (${result.reason})`);
+    }
+    const el = result.element;
+    if (el.type === 'image' && !blobKeys.has(el.blobKey || el.id)) {
+      throw new Error('Archive is missing image data');
+    }
+    return el;
+  });
+
+  return { ...value, elements } as unknown as ArchiveManifest;
+}
+
+// Import an archive as a new board. Element ids and blob keys are re-keyed
+// so importing the same file twice (or into the same browser it came from)
+// never collides with existing records.
+export async function importBoardArchive(file: Blob): Promise<Board> {
+  let files: Record<string, Uint8Array>;
+  let manifestJson: unknown;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    manifestJson = JSON.parse(strFromU8(files[MANIFEST_PATH]));
+  } catch {
+    throw new Error('Could not read archive');
+  }
+  const manifest = validateManifest(manifestJson, files);
+
+  return db.transaction('rw', [db.boards, db.elements, db.imageBlobs, db.fonts], async () => {
+    // Fonts keep their ids (they are shared by all boards), so a font that
+    // is already in the library isn't added twice
+    for (const font of manifest.fonts ?? []) {
+      if (await db.fonts.get(font.id)) continue;
+      await db.fonts.add({
+        id: font.id,
+        name: font.name,
+        blob: new Blob([files[font.path] as BlobPart]),
+        storedAt: Date.now(),
+      });
+    }
+
+    const board = await createBoard(manifest.board.name);
+    if (manifest.board.grid) {
+      await db.boards.update(board.id, { grid: manifest.board.grid });
+    }
+    const blobsByKey = new Map(manifest.blobs.map((b) => [b.key, b]));
+
+    const elements = await Promise.all(
+      manifest.elements.map(async (el, order) => {
+        const newId = createId(el.type);
+        const imported = {
+          ...stripStorageFields(el),
+          id: newId,
+          boardId: board.id,
+          order,
+          storedAt: Date.now(),
+          schemaVersion: ELEMENT_SCHEMA_VERSION,
+        };
+
+        if (el.type === 'image') {
+          const entry = blobsByKey.get(el.blobKey || el.id)!;
+          await db.imageBlobs.put({
+            id: newId,
+            boardId: board.id,
+            blob: new Blob([files[entry.path] as BlobPart], { type: entry.type }),
+            storedAt: Date.now(),
+          });
+          imported.blobKey = newId;
+        }
+
+        return imported;
+      }),
+    );
+    await db.elements.bulkAdd(elements);
+
+    return { ...board, grid: manifest.board.grid };
+  });
+}
@@ -0,0 +1,115 @@
+import { db, type Board, type GridSettings } from './index';
+import type { CanvasElementData } from '../components/Canvas/CanvasElement';
+import { createId } from '../utils/ids';
+import { ELEMENT_SCHEMA_VERSION, readBoardElements } from './schema';
+
+export async function createBoard(name = 'Untitled board'): Promise<Board> {
+  const now = Date.now();
+  const board: Board = {
+    id: createId('board'),
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.boards.add(board);
+  return board;
+}
+
+// The board the user worked on last, creating a first one if none exist
+export async function getLatestBoard(): Promise<Board> {
+  const latest = await db.boards.orderBy('updatedAt').last();
+  return latest ?? createBoard();
+}
+
+export async function renameBoard(id: string, name: string) {
+  await db.boards.update(id, { name, updatedAt: Date.now() });
+}
+
+export async function setBoardGrid(id: string, grid: GridSettings) {
+  await db.boards.update(id, { grid });
+}
+
+export async function touchBoard(id: string) {
+  await db.boards.update(id, { updatedAt: Date.now() });
+}
+
+// Not an edit, so the board keeps its place in the gallery
+export async function setBoardThumbnail(id: string, thumbnail?: string) {
+  await db.boards.update(id, { thumbnail });
+}
+
+// Copy elements into a board under fresh ids, duplicating the image blobs
+// they reference so the two copies can be edited (and cleaned up)
+// independently. `src` is dropped; it is recreated from the blob on load.
+export async function copyElementsToBoard(
+  elements: CanvasElementData[],
+  boardId: string,
+): Promise<CanvasElementData[]> {
+  return db.transaction('rw', db.imageBlobs, async () => {
+    const copies: CanvasElementData[] = [];
+    for (const el of elements) {
+      const newId = createId(el.type);
+      const copy: CanvasElementData = { ...el, id: newId, src: undefined };
+
+      if (el.type === 'image') {
+        const stored = await db.imageBlobs.get(el.blobKey || el.id);
+        if (stored) {
+          await db.imageBlobs.put({
+            id: newId,
+            boardId,
+            blob: stored.blob,
+            storedAt: Date.now(),
+          });
+        }
+        copy.blobKey = newId;
+      }
+
+      copies.push(copy);
+    }
+    return copies;
+  });
+}
+
+export async function duplicateBoard(id: string): Promise<Board> {
+  const source = await db.boards.get(id);
+  if (!source) throw new Error('Board not found');
+
+  return db.transaction(
+    'rw',
+    [db.boards, db.elements, db.imageBlobs, db.quarantine],
+    async () => {
+      const board = await createBoard(`${source.name} copy`);
+      // Migrated first, so the copies really are at ELEMENT_SCHEMA_VERSION
+      const elements = await readBoardElements(id);
+      const copies = await copyElementsToBoard(elements, board.id);
+      await db.elements.bulkAdd(
+        copies.map((el, order) => ({
+          ...el,
+          boardId: board.id,
+          order,
+          storedAt: Date.now(),
+          schemaVersion: ELEMENT_SCHEMA_VERSION,
+        })),
+      );
+      await db.boards.update(board.id, {
+        thumbnail: source.thumbnail,
+        grid: source.grid,
+      });
+      return { ...board, thumbnail: source.thumbnail, grid: source.grid };
+    },
+  );
+}
+
+export async function deleteBoard(id: string) {
+  await db.transaction(
+    'rw',
+    [db.boards, db.elements, db.imageBlobs, db.histories, db.quarantine],
+    async () => {
+      await db.elements.where('boardId').equals(id).delete();
+      await db.imageBlobs.where('boardId').equals(id).delete();
+      await db.histories.delete(id);
+      await db.quarantine.where('boardId').equals(id).delete();
+      await db.boards.delete(id);
+    },
+  );
+}
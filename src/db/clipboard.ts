@@ -0,0 +1,71 @@
+import { db } from './index';
+import type { CanvasElementData } from '../components/Canvas/CanvasElement';
+import { copyElementsToBoard } from './boards';
+import { ELEMENT_SCHEMA_VERSION, upgradeElements } from './schema';
+import { cloneElements } from '../utils/duplicate';
+
+// Clipboard format for elements copied from a board. Image data isn't
+// included: images refer to their blobs in IndexedDB, which every tab of the
+// app shares.
+export const ELEMENTS_MIME_TYPE = 'application/x-gloop-elements';
+
+interface ClipboardPayload {
+  boardId: string;
+  schemaVersion: number;
+  elements: unknown[];
+}
+
+function isClipboardPayload(value: unknown): value is ClipboardPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const payload = value as Record<string, unknown>;
+  return (
+    typeof payload.boardId === 'string' &&
+    typeof payload.schemaVersion === 'number' &&
+    Array.isArray(payload.elements)
+  );
+}
+
+export function serializeElements(
+  elements: CanvasElementData[],
+  boardId: string,
+): string {
+  const payload: ClipboardPayload = {
+    boardId,
+    schemaVersion: ELEMENT_SCHEMA_VERSION,
+    // Object URLs only work in the tab that created them
+    elements: elements.map((el) => ({ ...el, src: undefined })),
+  };
+  return JSON.stringify(payload);
+}
+
+// Turn copied elements into new ones for `boardId`, or null if `data` isn't
+// a payload written by serializeElements. Images copied from another board
+// get their own copy of the blob; images whose blob is gone are left out.
+export async function readClipboardElements(
+  data: string,
+  boardId: string,
+): Promise<CanvasElementData[] | null> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!isClipboardPayload(payload)) return null;
+
+  let copies = cloneElements(
+    upgradeElements(payload.elements, payload.schemaVersion),
+  );
+  if (payload.boardId !== boardId) {
+    copies = await copyElementsToBoard(copies, boardId);
+  }
+
+  const resolved = await Promise.all(
+    copies.map(async (el) => {
+      if (el.type !== 'image') return el;
+      const stored = await db.imageBlobs.get(el.blobKey || el.id);
+      return stored ? { ...el, src: URL.createObjectURL(stored.blob) } : null;
+    }),
+  );
+  return resolved.filter((el): el is CanvasElementData => el !== null);
+}
@@ -0,0 +1,61 @@
+import { db, type StoredFont } from './index';
+import { createId } from '../utils/ids';
+import { getFontFaceName } from '../utils/textLayout';
+
+export const FONT_FILE_EXTENSIONS = ['.ttf', '.otf', '.woff', '.woff2'];
+
+// One FontFace per stored font, registered on first use
+const registeredFaces = new Map<string, Promise<FontFace>>();
+
+// Make a stored font available to the DOM and to canvas rendering
+export function registerFont(font: StoredFont): Promise<FontFace> {
+  let face = registeredFaces.get(font.id);
+  if (!face) {
+    face = (async () => {
+      const fontFace = new FontFace(
+        getFontFaceName(font.id),
+        await font.blob.arrayBuffer(),
+      );
+      await fontFace.load();
+      document.fonts.add(fontFace);
+      return fontFace;
+    })();
+    registeredFaces.set(font.id, face);
+    face.catch(() => registeredFaces.delete(font.id));
+  }
+  return face;
+}
+
+// Store an uploaded font file. The font is loaded before it is stored, so
+// files that aren't valid fonts are rejected.
+export async function addFont(file: File): Promise<StoredFont> {
+  const dot = file.name.lastIndexOf('.');
+  const extension = dot >= 0 ? file.name.slice(dot).toLowerCase() : '';
+  if (!FONT_FILE_EXTENSIONS.includes(extension)) {
+    throw new Error('Fonts must be TTF, OTF, WOFF or WOFF2 files');
+  }
+
+  const font: StoredFont = {
+    id: createId('font'),
+    name: file.name.slice(0, dot) || file.name,
+    blob: file,
+    storedAt: Date.now(),
+  };
+  try {
+    await registerFont(font);
+  } catch {
+    throw new Error(`${file.name} is not a valid font file`);
+  }
+  await db.fonts.add(font);
+  return font;
+}
+
+// Text using a deleted font falls back to the default sans-serif
+export async function deleteFont(id: string) {
+  await db.fonts.delete(id);
+  const face = registeredFaces.get(id);
+  registeredFaces.delete(id);
+  if (face) {
+    face.then((fontFace) => document.fonts.delete(fontFace)).catch(() => {});
+  }
+}
@@ -2,19 +2,77 @@ import Dexie from 'dexie';
 import type { Table } from 'dexie';
 import type { CanvasElementData } from '../components/Canvas/CanvasElement';
 
+// Per-board grid overlay; `size` is the grid spacing in canvas pixels
+export interface GridSettings {
+  visible: boolean;
+  snap: boolean;
+  size: number;
+}
+
+export interface Board {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Small preview image as a data URL, refreshed as the board is edited
+  thumbnail?: string;
+  // Unset until the grid is first configured (see utils/grid)
+  grid?: GridSettings;
+}
+
 export interface StoredCanvasElement extends CanvasElementData {
+  boardId: string;
+  // Position in the board's stacking order (records are keyed by id, so
+  // array order isn't preserved by the table itself)
+  order?: number;
   storedAt?: number;
+  // ELEMENT_SCHEMA_VERSION the record was written with (see ./schema)
+  schemaVersion?: number;
 }
 
 export interface ImageBlob {
   id: string;
+  boardId: string;
+  blob: Blob;
+  storedAt: number;
+}
+
+// Font uploaded by the user, shared by every board
+export interface StoredFont {
+  id: string;
+  // Display name, from the uploaded file's name
+  name: string;
   blob: Blob;
   storedAt: number;
 }
 
+// Tail of a board's undo/redo stack, persisted so undo survives a reload.
+// Entries are stored without `src`; object URLs are recreated on load.
+export interface StoredHistory {
+  boardId: string;
+  entries: CanvasElementData[][];
+  index: number;
+  storedAt: number;
+  schemaVersion?: number;
+}
+
+// Stored element that failed validation on load, kept for inspection or
+// manual recovery instead of being rendered
+export interface QuarantinedElement {
+  id?: number;
+  boardId: string;
+  record: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
 export class MultiMemeDB extends Dexie {
+  boards!: Table<Board>;
+  histories!: Table<StoredHistory>;
   elements!: Table<StoredCanvasElement>;
   imageBlobs!: Table<ImageBlob>;
+  fonts!: Table<StoredFont>;
+  quarantine!: Table<QuarantinedElement, number>;
 
   constructor() {
     super('MultiMemeDB');
@@ -25,6 +83,50 @@ export class MultiMemeDB extends Dexie {
       elements: 'id',
       imageBlobs: 'id',
     });
+    this.version(3)
+      .stores({
+        boards: 'id, updatedAt',
+        elements: 'id, boardId',
+        imageBlobs: 'id, boardId',
+      })
+      .upgrade(async (tx) => {
+        // Move the single pre-boards canvas into a board of its own
+        const elementCount = await tx.table('elements').count();
+        const blobCount = await tx.table('imageBlobs').count();
+        if (elementCount === 0 && blobCount === 0) return;
+
+        const now = Date.now();
+        const boardId = `board-${now}`;
+        await tx.table('boards').add({
+          id: boardId,
+          name: 'My board',
+          createdAt: now,
+          updatedAt: now,
+        });
+        await tx.table('elements').toCollection().modify({ boardId });
+        await tx.table('imageBlobs').toCollection().modify({ boardId });
+      });
+    this.version(4).stores({
+      boards: 'id, updatedAt',
+      elements: 'id, boardId',
+      imageBlobs: 'id, boardId',
+      histories: 'boardId',
+    });
+    this.version(5).stores({
+      boards: 'id, updatedAt',
+      elements: 'id, boardId',
+      imageBlobs: 'id, boardId',
+      histories: 'boardId',
+      quarantine: '++id, boardId',
+    });
+    this.version(6).stores({
+      boards: 'id, updatedAt',
+      elements: 'id, boardId',
+      imageBlobs: 'id, boardId',
+      histories: 'boardId',
+      quarantine: '++id, boardId',
+      fonts: 'id',
+    });
   }
 }
 
@@ -0,0 +1,247 @@
+import { db, type StoredCanvasElement } from './index';
+import type { CanvasElementData } from '../components/Canvas/CanvasElement';
+
+// Version of the element record shape. Records written before versioning
+// was introduced have no `schemaVersion` and count as version 0. Bump this
+// and add a migration below whenever stored elements change shape.
+export const ELEMENT_SCHEMA_VERSION = 2;
+
+type ElementRecord = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a record from version n to n + 1
+const MIGRATIONS: ((record: ElementRecord) => ElementRecord)[] = [
+  // 0 -> 1: the original save path stored each image's object URL, which is
+  // dead after a reload. Images are always resolved from their blob now.
+  (record) => {
+    const upgraded = { ...record };
+    delete upgraded.src;
+    return upgraded;
+  },
+  // 1 -> 2: top-level text fields (two-valued `textColor`, `fontFamily`,
+  // `italic`, `allCaps`, outline) move into a `textStyle` object
+  (record) => {
+    const { fontFamily, italic, textColor, allCaps, strokeColor, strokeWidth, ...rest } =
+      record;
+    if (record.type !== 'textbox') return rest;
+
+    const textStyle = Object.fromEntries(
+      Object.entries({
+        fontFamily,
+        italic,
+        color: LEGACY_TEXT_COLORS[textColor as string],
+        allCaps,
+        strokeColor,
+        strokeWidth,
+      }).filter(([, value]) => value !== undefined),
+    );
+    return { ...rest, textStyle };
+  },
+];
+
+const LEGACY_TEXT_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#FFFFFF',
+};
+
+const ELEMENT_TYPES = ['textbox', 'image', 'shape'];
+const FONT_FAMILIES = ['comic-sans', 'sans', 'meme'];
+const TEXT_ALIGNS = ['left', 'center', 'right'];
+const TEXT_SIZINGS = ['auto', 'fixed', 'fit'];
+const SHAPE_KINDS = ['rectangle', 'square', 'circle', 'triangle'];
+const OPTIONAL_NUMBERS = [
+  'width',
+  'height',
+  'rotation',
+  'fontSize',
+  'naturalWidth',
+  'naturalHeight',
+];
+
+function isObject(value: unknown): value is ElementRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isOneOf(value: unknown, allowed: string[]) {
+  return value === undefined || allowed.includes(value as string);
+}
+
+// Why a record can't be rendered, or null if it is a usable element
+export function getElementProblem(value: unknown): string | null {
+  if (!isObject(value)) return 'not an object';
+  if (typeof value.id !== 'string' || !value.id) return 'missing id';
+  if (!ELEMENT_TYPES.includes(value.type as string)) return 'unknown type';
+  if (!isFiniteNumber(value.x) || !isFiniteNumber(value.y)) return 'invalid position';
+
+  for (const key of OPTIONAL_NUMBERS) {
+    if (value[key] !== undefined && !isFiniteNumber(value[key])) return `invalid ${key}`;
+  }
+  for (const key of ['content', 'src', 'blobKey', 'fillColor', 'name']) {
+    if (value[key] !== undefined && typeof value[key] !== 'string') return `invalid ${key}`;
+  }
+  for (const key of ['hidden', 'locked', 'flipX', 'flipY']) {
+    if (value[key] !== undefined && typeof value[key] !== 'boolean') return `invalid ${key}`;
+  }
+  if (!isOneOf(value.shape, SHAPE_KINDS)) return 'invalid shape';
+  if (!isOneOf(value.textSizing, TEXT_SIZINGS)) return 'invalid textSizing';
+
+  if (
+    value.groupIds !== undefined &&
+    !(Array.isArray(value.groupIds) && value.groupIds.every((id) => typeof id === 'string'))
+  ) {
+    return 'invalid groupIds';
+  }
+
+  if (value.crop !== undefined) {
+    const crop = value.crop;
+    if (
+      !isObject(crop) ||
+      !['x', 'y', 'width', 'height'].every((key) => isFiniteNumber(crop[key]))
+    ) {
+      return 'invalid crop';
+    }
+  }
+
+  if (value.textStyle !== undefined) {
+    const problem = getTextStyleProblem(value.textStyle);
+    if (problem) return problem;
+  }
+
+  if (value.runs !== undefined) {
+    const problem = getRunsProblem(value.runs, value.content);
+    if (problem) return problem;
+  }
+
+  return null;
+}
+
+function getRunsProblem(runs: unknown, content: unknown): string | null {
+  if (!Array.isArray(runs)) return 'invalid runs';
+  for (const run of runs) {
+    if (
+      !isObject(run) ||
+      typeof run.text !== 'string' ||
+      (run.color !== undefined && typeof run.color !== 'string') ||
+      (run.bold !== undefined && typeof run.bold !== 'boolean') ||
+      (run.italic !== undefined && typeof run.italic !== 'boolean') ||
+      (run.scale !== undefined && !(isFiniteNumber(run.scale) && run.scale > 0))
+    ) {
+      return 'invalid runs';
+    }
+  }
+  // `content` is the plain text of the runs; a mismatch means one of them
+  // was edited without the other
+  if (runs.map((run) => run.text).join('') !== (content ?? '')) return 'runs do not match content';
+  return null;
+}
+
+function getTextStyleProblem(style: unknown): string | null {
+  if (!isObject(style)) return 'invalid textStyle';
+  const isCustomFont =
+    typeof style.fontFamily === 'string' && style.fontFamily.startsWith('custom:');
+  if (!isCustomFont && !isOneOf(style.fontFamily, FONT_FAMILIES)) return 'invalid fontFamily';
+  if (!isOneOf(style.align, TEXT_ALIGNS)) return 'invalid align';
+  for (const key of ['color', 'strokeColor']) {
+    if (style[key] !== undefined && typeof style[key] !== 'string') return `invalid ${key}`;
+  }
+  for (const key of ['bold', 'italic', 'underline', 'allCaps']) {
+    if (style[key] !== undefined && typeof style[key] !== 'boolean') return `invalid ${key}`;
+  }
+  for (const key of ['letterSpacing', 'lineHeight', 'strokeWidth']) {
+    if (style[key] !== undefined && !isFiniteNumber(style[key])) return `invalid ${key}`;
+  }
+
+  if (style.shadow !== undefined) {
+    const shadow = style.shadow;
+    if (
+      !isObject(shadow) ||
+      typeof shadow.color !== 'string' ||
+      !['offsetX', 'offsetY', 'blur'].every((key) => isFiniteNumber(shadow[key]))
+    ) {
+      return 'invalid shadow';
+    }
+  }
+
+  return null;
+}
+
+export type UpgradeResult<T> =
+  | { ok: true; element: T }
+  | { ok: false; reason: string };
+
+// Run a record through every migration after `fromVersion`, then validate
+// it. Records from a newer version are passed through untouched if they
+// still look like elements this version can render.
+export function upgradeElement<T extends CanvasElementData = CanvasElementData>(
+  record: unknown,
+  fromVersion: number,
+): UpgradeResult<T> {
+  if (!isObject(record)) return { ok: false, reason: 'not an object' };
+
+  let upgraded = record;
+  for (let version = Math.max(0, fromVersion); version < ELEMENT_SCHEMA_VERSION; version++) {
+    upgraded = MIGRATIONS[version](upgraded);
+  }
+
+  const problem = getElementProblem(upgraded);
+  if (problem) return { ok: false, reason: problem };
+  return { ok: true, element: upgraded as T };
+}
+
+// Upgrade a list of elements stored at `fromVersion`, dropping any that
+// can't be rendered (used for undo history, which isn't worth quarantining)
+export function upgradeElements(records: unknown[], fromVersion: number) {
+  const elements: CanvasElementData[] = [];
+  for (const record of records) {
+    const result = upgradeElement(record, fromVersion);
+    if (result.ok) elements.push(result.element);
+  }
+  return elements;
+}
+
+// Read a board's elements in stacking order, writing migrated records back
+// and moving malformed ones to the quarantine table so a single bad record
+// can't take down rendering of the whole board
+export async function readBoardElements(boardId: string): Promise<StoredCanvasElement[]> {
+  return db.transaction('rw', db.elements, db.quarantine, async () => {
+    const records = await db.elements.where('boardId').equals(boardId).toArray();
+    const valid: StoredCanvasElement[] = [];
+    const upgraded: StoredCanvasElement[] = [];
+    const malformed: { record: StoredCanvasElement; reason: string }[] = [];
+
+    for (const record of records) {
+      const result = upgradeElement<StoredCanvasElement>(record, record.schemaVersion ?? 0);
+      if (!result.ok) {
+        malformed.push({ record, reason: result.reason });
+        continue;
+      }
+
+      let element = result.element;
+      if ((record.schemaVersion ?? 0) < ELEMENT_SCHEMA_VERSION) {
+        element = { ...element, schemaVersion: ELEMENT_SCHEMA_VERSION };
+        upgraded.push(element);
+      }
+      valid.push(element);
+    }
+
+    if (upgraded.length > 0) {
+      await db.elements.bulkPut(upgraded);
+    }
+    if (malformed.length > 0) {
+      const quarantinedAt = Date.now();
+      await db.quarantine.bulkAdd(
+        malformed.map(({ record, reason }) => ({ boardId, record, reason, quarantinedAt })),
+      );
+      await db.elements.bulkDelete(malformed.map(({ record }) => record.id));
+      console.warn(
+        `Quarantined ${malformed.length} malformed element(s) on board ${boardId}:`,
+        malformed.map(({ reason }) => reason),
+      );
+    }
+
+    return valid.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  });
+}
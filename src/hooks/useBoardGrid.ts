@@ -0,0 +1,35 @@
+import { useCallback } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { db, type GridSettings } from "../db";
+import { setBoardGrid } from "../db/boards";
+import { DEFAULT_GRID } from "../utils/grid";
+
+interface UseBoardGridParams {
+  boardId: string;
+  updateStatus: (
+    message: string,
+    type?: "info" | "success" | "error" | "warning",
+  ) => void;
+}
+
+// The board's grid settings, saved with the board (and kept in sync with
+// other tabs showing it)
+export function useBoardGrid({ boardId, updateStatus }: UseBoardGridParams) {
+  const storedGrid = useLiveQuery(
+    async () => (await db.boards.get(boardId))?.grid,
+    [boardId],
+  );
+  const grid = storedGrid ?? DEFAULT_GRID;
+
+  const handleSetGrid = useCallback(
+    (changes: Partial<GridSettings>) => {
+      setBoardGrid(boardId, { ...grid, ...changes }).catch((error) => {
+        console.error("Failed to save grid settings:", error);
+        updateStatus("Failed to save grid settings", "error");
+      });
+    },
+    [boardId, grid, updateStatus],
+  );
+
+  return { grid, handleSetGrid };
+}
@@ -0,0 +1,35 @@
+import { useEffect } from "react";
+import type { CanvasElementData } from "../types/canvas";
+import { setBoardThumbnail } from "../db/boards";
+import { renderThumbnail } from "../utils/exportCanvas";
+
+interface UseBoardThumbnailParams {
+  boardId: string;
+  elements: CanvasElementData[];
+  isLoaded: boolean;
+}
+
+export function useBoardThumbnail({
+  boardId,
+  elements,
+  isLoaded,
+}: UseBoardThumbnailParams) {
+  // Refresh the gallery preview once editing settles (debounced, and less
+  // often than auto-save since rendering loads every image)
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const visible = elements.filter((el) => !el.hidden);
+        const thumbnail =
+          visible.length > 0 ? await renderThumbnail(visible) : undefined;
+        await setBoardThumbnail(boardId, thumbnail);
+      } catch (error) {
+        console.error("Failed to update board thumbnail:", error);
+      }
+    }, 3000);
+
+    return () => clearTimeout(timeoutId);
+  }, [boardId, elements, isLoaded]);
+}
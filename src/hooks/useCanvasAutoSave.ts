@@ -3,21 +3,43 @@ import type { CanvasElementData } from "../types/canvas";
 
 interface UseCanvasAutoSaveParams {
   elements: CanvasElementData[];
+  history: CanvasElementData[][];
+  historyIndex: number;
+  isLoaded: boolean;
   saveElements: (elements: CanvasElementData[]) => Promise<void>;
+  saveHistory: (history: CanvasElementData[][], index: number) => Promise<void>;
 }
 
 export function useCanvasAutoSave({
   elements,
+  history,
+  historyIndex,
+  isLoaded,
   saveElements,
+  saveHistory,
 }: UseCanvasAutoSaveParams) {
-  // Auto-save elements to Dexie whenever they change (debounced)
+  // Auto-save elements to Dexie whenever they change (debounced). This
+  // includes an empty canvas, so deleting the last element sticks; only the
+  // initial empty state before the board has loaded is skipped.
   useEffect(() => {
-    if (elements.length > 0) {
-      const timeoutId = setTimeout(() => {
-        saveElements(elements);
-      }, 1000);
+    if (!isLoaded) return;
 
-      return () => clearTimeout(timeoutId);
-    }
-  }, [elements, saveElements]);
+    const timeoutId = setTimeout(() => {
+      saveElements(elements);
+    }, 1000);
+
+    return () => clearTimeout(timeoutId);
+  }, [elements, isLoaded, saveElements]);
+
+  // Auto-save the undo/redo stack (debounced). Wait for the initial load so
+  // the empty starting history never overwrites the persisted one.
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const timeoutId = setTimeout(() => {
+      saveHistory(history, historyIndex);
+    }, 1000);
+
+    return () => clearTimeout(timeoutId);
+  }, [history, historyIndex, isLoaded, saveHistory]);
 }
@@ -1,19 +1,70 @@
 import { useEffect, useCallback, useRef, useState } from "react";
 import type { CanvasElementData } from "../types/canvas";
 import { DEFAULT_FILL, type ShapeKind } from "../components/Canvas/Shape";
-import type { CropRect } from "../components/Canvas/CanvasElement";
+import type {
+  CropRect,
+  TextRun,
+  TextSizing,
+  TextStyle,
+} from "../components/Canvas/CanvasElement";
 import { db } from "../db";
+import {
+  ELEMENTS_MIME_TYPE,
+  readClipboardElements,
+  serializeElements,
+} from "../db/clipboard";
 import { useBackgroundRemoval } from "./useBackgroundRemoval";
+import {
+  fitTextboxFontSize,
+  isFixedSizeTextbox,
+  layoutTextbox,
+  resolveTextStyle,
+} from "../utils/textLayout";
+import { getTextFields } from "../utils/richText";
+import { snapToGrid } from "../utils/grid";
+import { cloneElements } from "../utils/duplicate";
+import {
+  flipElementWithin,
+  getElementBounds,
+  getElementBox,
+  rotateElementAround,
+  scaleElementWithin,
+  unionBoxes,
+  type Box,
+} from "../utils/geometry";
+import {
+  expandToWholeGroups,
+  groupElements,
+  ungroupElements,
+} from "../utils/groups";
+import {
+  moveElementsNextTo,
+  reorderElements,
+  type ZOrderAction,
+} from "../utils/zOrder";
+import {
+  alignElements,
+  countAlignableItems,
+  distributeElements,
+  type AlignAction,
+  type DistributeAxis,
+} from "../utils/align";
 
 interface UseCanvasElementsParams {
+  boardId: string;
   elements: CanvasElementData[];
   setElements: React.Dispatch<React.SetStateAction<CanvasElementData[]>>;
   selectedElementIds: Set<string>;
   setSelectedElementIds: React.Dispatch<React.SetStateAction<Set<string>>>;
-  updateElementsWithHistory: (newElements: CanvasElementData[]) => void;
+  updateElementsWithHistory: (
+    newElements: CanvasElementData[],
+    merge?: boolean,
+  ) => void;
   history: CanvasElementData[][];
   canvasRef: React.RefObject<HTMLDivElement | null>;
   cursorPosition: { x: number; y: number };
+  // Grid spacing new elements are placed on, or null when snapping is off
+  snapGridSize: number | null;
   zoom: number;
   updateStatus: (
     message: string,
@@ -28,7 +79,68 @@ const SHAPE_DIMS: Record<ShapeKind, { width: number; height: number }> = {
   triangle: { width: 200, height: 180 },
 };
 
+const REORDER_MESSAGES: Record<ZOrderAction, string> = {
+  front: "Brought to front",
+  forward: "Brought forward",
+  backward: "Sent backward",
+  back: "Sent to back",
+};
+
+// Arrow-key nudges this close together undo as one step
+const NUDGE_MERGE_MS = 1000;
+
+// How far a duplicate lands from its original, and repeated pastes from
+// each other
+const DUPLICATE_OFFSET = 20;
+
+// Copy and paste belong to text being edited rather than to elements
+function isEditingText() {
+  const activeEl = document.activeElement as HTMLElement | null;
+  return (
+    !!activeEl &&
+    (activeEl.isContentEditable ||
+      activeEl.tagName === "INPUT" ||
+      activeEl.tagName === "TEXTAREA")
+  );
+}
+
+// Keyboard scaling won't shrink an element's box below this
+const MIN_SCALED_SIZE = 20;
+
+const ALIGN_MESSAGES: Record<AlignAction, string> = {
+  left: "Aligned left edges",
+  center: "Aligned horizontal centers",
+  right: "Aligned right edges",
+  top: "Aligned top edges",
+  middle: "Aligned vertical centers",
+  bottom: "Aligned bottom edges",
+};
+
+function withTextStyle(
+  el: CanvasElementData,
+  changes: Partial<TextStyle>,
+): CanvasElementData {
+  return { ...el, textStyle: { ...el.textStyle, ...changes } };
+}
+
+// The eyedropper picks a shape's fill or a textbox's text color
+function getPickableColor(el: CanvasElementData) {
+  return el.type === "textbox"
+    ? resolveTextStyle(el.textStyle).color
+    : el.fillColor;
+}
+
+function withPickedColor(
+  el: CanvasElementData,
+  color: string,
+): CanvasElementData {
+  return el.type === "textbox"
+    ? withTextStyle(el, { color })
+    : { ...el, fillColor: color };
+}
+
 export function useCanvasElements({
+  boardId,
   elements,
   setElements,
   selectedElementIds,
@@ -37,6 +149,7 @@ export function useCanvasElements({
   history,
   canvasRef,
   cursorPosition,
+  snapGridSize,
   zoom,
   updateStatus,
 }: UseCanvasElementsParams) {
@@ -44,38 +157,61 @@ export function useCanvasElements({
     null,
   );
   const lastPreviewColorRef = useRef<string | null>(null);
+  // Cursor position of the last paste and how many times it was repeated
+  // there
+  const lastPasteRef = useRef<{ x: number; y: number; count: number } | null>(
+    null,
+  );
+  // Result and time of the last nudge, to fold the next one into its
+  // history entry if nothing else changed in between
+  const lastNudgeRef = useRef<{
+    elements: CanvasElementData[];
+    time: number;
+  } | null>(null);
   const eyedropperCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const eyedropperStartColorRef = useRef<string | null>(null);
 
-  const previewShapeFillColor = useCallback(
+  const previewPickedColor = useCallback(
     (id: string, color: string) => {
       setElements((prev) =>
-        prev.map((el) => (el.id === id ? { ...el, fillColor: color } : el)),
+        prev.map((el) => (el.id === id ? withPickedColor(el, color) : el)),
       );
     },
     [setElements],
   );
 
-  const commitShapeFillColor = useCallback(
+  const commitPickedColor = useCallback(
     (id: string, color: string) => {
       const newElements = elements.map((el) =>
-        el.id === id ? { ...el, fillColor: color } : el,
+        el.id === id ? withPickedColor(el, color) : el,
       );
       updateElementsWithHistory(newElements);
     },
     [elements, updateElementsWithHistory],
   );
+  // Where to put a new element: the given point, or the center of the view,
+  // moved onto the grid when snapping is on
+  const getPlacement = (point?: { x: number; y: number }) => {
+    const canvas = canvasRef.current;
+    const x =
+      point?.x ??
+      (canvas
+        ? (canvas.scrollLeft + canvas.clientWidth / 2) / zoom
+        : 5000 + elements.length * 10);
+    const y =
+      point?.y ??
+      (canvas
+        ? (canvas.scrollTop + canvas.clientHeight / 2) / zoom
+        : 5000 + elements.length * 10);
+    return snapGridSize
+      ? { x: snapToGrid(x, snapGridSize), y: snapToGrid(y, snapGridSize) }
+      : { x, y };
+  };
+
   // Add a new textbox
   const handleAddTextbox = () => {
     const newId = `textbox-${Date.now()}`;
-
-    const canvas = canvasRef.current;
-    const x = canvas
-      ? (canvas.scrollLeft + canvas.clientWidth / 2) / zoom
-      : 5000 + elements.length * 10;
-    const y = canvas
-      ? (canvas.scrollTop + canvas.clientHeight / 2) / zoom
-      : 5000 + elements.length * 10;
+    const { x, y } = getPlacement();
 
     const newElement: CanvasElementData = {
       id: newId,
@@ -94,14 +230,7 @@ export function useCanvasElements({
 
   const handleAddShape = (shape: ShapeKind) => {
     const newId = `shape-${Date.now()}`;
-
-    const canvas = canvasRef.current;
-    const x = canvas
-      ? (canvas.scrollLeft + canvas.clientWidth / 2) / zoom
-      : 5000 + elements.length * 10;
-    const y = canvas
-      ? (canvas.scrollTop + canvas.clientHeight / 2) / zoom
-      : 5000 + elements.length * 10;
+    const { x, y } = getPlacement();
 
     const { width, height } = SHAPE_DIMS[shape];
     const fillColor = DEFAULT_FILL[shape];
@@ -124,16 +253,16 @@ export function useCanvasElements({
   };
 
   const handleSetShapeFillColor = (id: string, color: string) => {
-    commitShapeFillColor(id, color);
+    commitPickedColor(id, color);
     updateStatus("Shape color updated", "success");
   };
 
-  const handleStartShapeEyedropper = (id: string) => {
+  const handleStartEyedropper = (id: string) => {
     if (eyedropperTargetId === id) {
       setEyedropperTargetId(null);
       lastPreviewColorRef.current = null;
       if (eyedropperStartColorRef.current) {
-        previewShapeFillColor(id, eyedropperStartColorRef.current);
+        previewPickedColor(id, eyedropperStartColorRef.current);
       }
       eyedropperStartColorRef.current = null;
       updateStatus("Eyedropper canceled", "info");
@@ -141,7 +270,8 @@ export function useCanvasElements({
     }
     lastPreviewColorRef.current = null;
     const target = elements.find((el) => el.id === id);
-    eyedropperStartColorRef.current = target?.fillColor || null;
+    eyedropperStartColorRef.current =
+      (target && getPickableColor(target)) || null;
     setEyedropperTargetId(id);
     updateStatus("Eyedropper active - hover an image to pick a color", "info");
   };
@@ -197,7 +327,7 @@ export function useCanvasElements({
       const color = pickColorAtPoint(e.clientX, e.clientY);
       if (!color || color === lastPreviewColorRef.current) return;
       lastPreviewColorRef.current = color;
-      previewShapeFillColor(eyedropperTargetId, color);
+      previewPickedColor(eyedropperTargetId, color);
     };
 
     const handleMouseDown = (e: MouseEvent) => {
@@ -212,7 +342,7 @@ export function useCanvasElements({
       if (!color) return;
       e.preventDefault();
       e.stopPropagation();
-      commitShapeFillColor(eyedropperTargetId, color);
+      commitPickedColor(eyedropperTargetId, color);
       updateStatus("Color picked", "success");
       setEyedropperTargetId(null);
       lastPreviewColorRef.current = null;
@@ -222,7 +352,7 @@ export function useCanvasElements({
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === "Escape") {
         if (eyedropperStartColorRef.current && eyedropperTargetId) {
-          previewShapeFillColor(
+          previewPickedColor(
             eyedropperTargetId,
             eyedropperStartColorRef.current,
           );
@@ -249,8 +379,8 @@ export function useCanvasElements({
     };
   }, [
     eyedropperTargetId,
-    commitShapeFillColor,
-    previewShapeFillColor,
+    commitPickedColor,
+    previewPickedColor,
     updateStatus,
   ]);
 
@@ -269,9 +399,13 @@ export function useCanvasElements({
   // };
 
   // Handle element content change
-  const handleElementContentChange = (id: string, content: string) => {
+  const handleElementContentChange = (
+    id: string,
+    content: string,
+    runs?: TextRun[],
+  ) => {
     const newElements = elements.map((el) =>
-      el.id === id ? { ...el, content } : el,
+      el.id === id ? { ...el, content, runs } : el,
     );
     setElements(newElements);
   };
@@ -303,49 +437,305 @@ export function useCanvasElements({
     setSelectedElementIds(new Set([id]));
   };
 
-  // Handle font toggle
-  const handleToggleFont = (id: string) => {
-    const newElements = elements.map((el) => {
-      if (el.id === id) {
-        const current = el.fontFamily || "sans";
-        return {
-          ...el,
-          fontFamily:
-            current === "sans" ? ("comic-sans" as const) : ("sans" as const),
-        };
-      }
-      return el;
-    });
+  // Apply text style changes as an undoable edit
+  const handleSetTextStyle = (id: string, changes: Partial<TextStyle>) => {
+    const newElements = elements.map((el) =>
+      el.id === id ? withTextStyle(el, changes) : el,
+    );
     updateElementsWithHistory(newElements);
   };
 
-  // Handle italic toggle
-  const handleToggleItalic = (id: string) => {
-    const newElements = elements.map((el) => {
-      if (el.id === id) {
-        return { ...el, italic: !el.italic };
-      }
-      return el;
+  // Restyle part of a textbox's text (or paste into it) as an undoable edit
+  const handleSetTextRuns = (id: string, runs: TextRun[]) => {
+    const newElements = elements.map((el) =>
+      el.id === id ? { ...el, ...getTextFields(runs) } : el,
+    );
+    updateElementsWithHistory(newElements);
+  };
+
+  // Show text style changes without recording them (e.g. while a color
+  // picker is open); the final value is committed with handleSetTextStyle
+  const handlePreviewTextStyle = (id: string, changes: Partial<TextStyle>) => {
+    setElements((prev) =>
+      prev.map((el) => (el.id === id ? withTextStyle(el, changes) : el)),
+    );
+  };
+
+  // Group the selection (Ctrl/Cmd+G). Selected groups are nested inside
+  // the new group, whole even if only part of them was selected.
+  const handleGroupSelection = () => {
+    const newElements = groupElements(elements, selectedElementIds);
+    if (!newElements) {
+      updateStatus("Select at least two elements or groups to group", "info");
+      return;
+    }
+    updateElementsWithHistory(newElements);
+    setSelectedElementIds(expandToWholeGroups(elements, selectedElementIds));
+    updateStatus("Elements grouped", "success");
+  };
+
+  // Ungroup the selected groups (Ctrl/Cmd+Shift+G), one level at a time
+  const handleUngroupSelection = () => {
+    const newElements = ungroupElements(elements, selectedElementIds);
+    if (!newElements) {
+      updateStatus("No group selected", "info");
+      return;
+    }
+    updateElementsWithHistory(newElements);
+    updateStatus("Elements ungrouped", "success");
+  };
+
+  // Move the selection up or down the stacking order
+  const handleReorder = (action: ZOrderAction) => {
+    if (selectedElementIds.size === 0) return;
+    const newElements = reorderElements(elements, selectedElementIds, action);
+    if (!newElements) {
+      updateStatus(
+        action === "front" || action === "forward"
+          ? "Already at the front"
+          : "Already at the back",
+        "info",
+      );
+      return;
+    }
+    updateElementsWithHistory(newElements);
+    updateStatus(REORDER_MESSAGES[action], "success");
+  };
+
+  // Line the selection up with its own bounds, or with the key object
+  const handleAlign = (action: AlignAction, keyId: string | null) => {
+    if (countAlignableItems(elements, selectedElementIds) < 2) {
+      updateStatus("Select at least two elements or groups to align", "info");
+      return;
+    }
+    const newElements = alignElements(
+      elements,
+      selectedElementIds,
+      action,
+      keyId,
+    );
+    if (!newElements) {
+      updateStatus("Already aligned", "info");
+      return;
+    }
+    updateElementsWithHistory(newElements);
+    updateStatus(ALIGN_MESSAGES[action], "success");
+  };
+
+  const handleDistribute = (axis: DistributeAxis) => {
+    if (countAlignableItems(elements, selectedElementIds) < 3) {
+      updateStatus(
+        "Select at least three elements or groups to distribute",
+        "info",
+      );
+      return;
+    }
+    const newElements = distributeElements(elements, selectedElementIds, axis);
+    if (!newElements) {
+      updateStatus("Already evenly spaced", "info");
+      return;
+    }
+    updateElementsWithHistory(newElements);
+    updateStatus(
+      axis === "horizontal"
+        ? "Distributed horizontally"
+        : "Distributed vertically",
+      "success",
+    );
+  };
+
+  // Apply a transform to the selected unlocked elements as a whole, around
+  // their combined bounds. Returns null if there's nothing to transform or
+  // `transform` rejects an element.
+  const transformSelection = (
+    transform: (el: CanvasElementData, bounds: Box) => CanvasElementData | null,
+  ) => {
+    const targets = elements.filter(
+      (el) => selectedElementIds.has(el.id) && !el.locked && !el.hidden,
+    );
+    const bounds = unionBoxes(targets.map(getElementBounds));
+    if (!bounds) return null;
+
+    const transformed = new Map<string, CanvasElementData>();
+    for (const el of targets) {
+      const next = transform(el, bounds);
+      if (!next) return null;
+      transformed.set(
+        el.id,
+        next.textSizing === "fit"
+          ? { ...next, fontSize: fitTextboxFontSize(next) }
+          : next,
+      );
+    }
+    return elements.map((el) => transformed.get(el.id) ?? el);
+  };
+
+  // Move the selection by arrow-key steps. A burst of presses is a single
+  // history entry.
+  const handleNudge = (dx: number, dy: number) => {
+    const newElements = elements.map((el) =>
+      selectedElementIds.has(el.id) && !el.locked
+        ? { ...el, x: Math.max(0, el.x + dx), y: Math.max(0, el.y + dy) }
+        : el,
+    );
+    if (newElements.every((el, i) => el === elements[i])) {
+      updateStatus("Locked elements can't be moved", "warning");
+      return;
+    }
+
+    const last = lastNudgeRef.current;
+    const now = Date.now();
+    const merge =
+      last !== null &&
+      last.elements === elements &&
+      now - last.time < NUDGE_MERGE_MS;
+    updateElementsWithHistory(newElements, merge);
+    lastNudgeRef.current = { elements: newElements, time: now };
+  };
+
+  // Turn the selection by a quarter turn (or any angle) around its center
+  const handleRotateSelection = (deltaRotation: number) => {
+    const newElements = transformSelection((el, bounds) =>
+      rotateElementAround(
+        el,
+        {
+          x: bounds.x + bounds.width / 2,
+          y: bounds.y + bounds.height / 2,
+        },
+        deltaRotation,
+      ),
+    );
+    if (!newElements) return;
+    updateElementsWithHistory(newElements);
+    updateStatus(
+      selectedElementIds.size === 1 ? "Element rotated" : "Elements rotated",
+      "success",
+    );
+  };
+
+  // Mirror the selection across its center
+  const handleFlipSelection = (axis: "horizontal" | "vertical") => {
+    const newElements = transformSelection((el, bounds) =>
+      flipElementWithin(el, bounds, axis),
+    );
+    if (!newElements) return;
+    updateElementsWithHistory(newElements);
+    updateStatus(
+      axis === "horizontal" ? "Flipped horizontally" : "Flipped vertically",
+      "success",
+    );
+  };
+
+  // Scale the selection around its center by `factor`
+  const handleScaleSelection = (factor: number) => {
+    const newElements = transformSelection((el, bounds) => {
+      const to = {
+        x: bounds.x + (bounds.width * (1 - factor)) / 2,
+        y: bounds.y + (bounds.height * (1 - factor)) / 2,
+        width: bounds.width * factor,
+        height: bounds.height * factor,
+      };
+      const scaled = scaleElementWithin(el, bounds, to);
+      const box = getElementBox(scaled);
+      return factor < 1 && Math.min(box.width, box.height) < MIN_SCALED_SIZE
+        ? null
+        : scaled;
     });
+    if (!newElements) {
+      if (factor < 1) updateStatus("Can't shrink any further", "info");
+      return;
+    }
     updateElementsWithHistory(newElements);
+    updateStatus(factor > 1 ? "Scaled up" : "Scaled down", "success");
   };
 
-  // Handle text color toggle
-  const handleToggleTextColor = (id: string) => {
-    const newElements = elements.map((el) => {
-      if (el.id === id) {
-        const current = el.textColor || "black";
-        return {
-          ...el,
-          textColor:
-            current === "black" ? ("white" as const) : ("black" as const),
-        };
+  // Select from the layers panel; Shift/Ctrl/Cmd-click adds or removes
+  const handleLayerSelect = (id: string, additive: boolean) => {
+    if (!additive) {
+      setSelectedElementIds(new Set([id]));
+      return;
+    }
+    setSelectedElementIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
       }
-      return el;
+      return next;
     });
+  };
+
+  // Drop a layer in front of or behind another. Dragging a selected layer
+  // moves the whole selection.
+  const handleMoveLayer = (
+    id: string,
+    targetId: string,
+    position: "front" | "behind",
+  ) => {
+    const ids = selectedElementIds.has(id)
+      ? selectedElementIds
+      : new Set([id]);
+    const newElements = moveElementsNextTo(elements, ids, targetId, position);
+    if (!newElements) return;
     updateElementsWithHistory(newElements);
   };
 
+  const handleRenameElement = (id: string, name: string) => {
+    const trimmed = name.trim();
+    const element = elements.find((el) => el.id === id);
+    if (!element || (element.name ?? "") === trimmed) return;
+
+    const newElements = elements.map((el) =>
+      el.id === id ? { ...el, name: trimmed || undefined } : el,
+    );
+    updateElementsWithHistory(newElements);
+  };
+
+  // Hidden elements aren't drawn or exported and drop out of the selection
+  const handleToggleHidden = (id: string) => {
+    const element = elements.find((el) => el.id === id);
+    if (!element) return;
+
+    const hidden = !element.hidden;
+    const newElements = elements.map((el) =>
+      el.id === id ? { ...el, hidden: hidden || undefined } : el,
+    );
+    updateElementsWithHistory(newElements);
+    if (hidden) {
+      setSelectedElementIds((prev) => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+    updateStatus(hidden ? "Element hidden" : "Element shown", "info");
+  };
+
+  const handleToggleLocked = (id: string) => {
+    const element = elements.find((el) => el.id === id);
+    if (!element) return;
+
+    const locked = !element.locked;
+    const newElements = elements.map((el) =>
+      el.id === id ? { ...el, locked: locked || undefined } : el,
+    );
+    updateElementsWithHistory(newElements);
+    updateStatus(locked ? "Element locked" : "Element unlocked", "info");
+  };
+
+  // Lock or unlock every selected element, from the context menu
+  const handleSetSelectionLocked = (locked: boolean) => {
+    if (selectedElementIds.size === 0) return;
+    const newElements = elements.map((el) =>
+      selectedElementIds.has(el.id)
+        ? { ...el, locked: locked || undefined }
+        : el,
+    );
+    updateElementsWithHistory(newElements);
+    updateStatus(locked ? "Selection locked" : "Selection unlocked", "info");
+  };
+
   // Handle pasting image from clipboard
   const handlePasteImage = async (item: DataTransferItem) => {
     updateStatus("Processing image...", "info");
@@ -358,6 +748,7 @@ export function useCanvasElements({
 
       await db.imageBlobs.put({
         id: newId,
+        boardId,
         blob: file,
         storedAt: Date.now(),
       });
@@ -366,11 +757,12 @@ export function useCanvasElements({
 
       const img = new Image();
       img.onload = () => {
+        const { x, y } = getPlacement(cursorPosition);
         const newElement: CanvasElementData = {
           id: newId,
           type: "image",
-          x: cursorPosition.x,
-          y: cursorPosition.y,
+          x,
+          y,
           width: Math.min(img.naturalWidth, 400),
           height: Math.min(img.naturalHeight, 300),
           rotation: 0,
@@ -390,8 +782,119 @@ export function useCanvasElements({
     }
   };
 
-  // Handle paste event for images
+  // Put copied elements on the board at the cursor, as one history entry
+  const handlePasteElements = async (data: string) => {
+    const pasted = await readClipboardElements(data, boardId);
+    if (!pasted) {
+      updateStatus("Failed to paste elements", "error");
+      return;
+    }
+    const bounds = unionBoxes(pasted.map(getElementBounds));
+    if (!bounds) {
+      updateStatus("The copied images are no longer available", "error");
+      return;
+    }
+
+    // Pasting again without moving the mouse steps each copy further along
+    const last = lastPasteRef.current;
+    const count =
+      last && last.x === cursorPosition.x && last.y === cursorPosition.y
+        ? last.count + 1
+        : 0;
+    lastPasteRef.current = { ...cursorPosition, count };
+    const target = getPlacement({
+      x: cursorPosition.x + count * DUPLICATE_OFFSET,
+      y: cursorPosition.y + count * DUPLICATE_OFFSET,
+    });
+
+    const placed = pasted.map((el) => ({
+      ...el,
+      x: el.x + target.x - bounds.x,
+      y: el.y + target.y - bounds.y,
+    }));
+    updateElementsWithHistory([...elements, ...placed]);
+    setSelectedElementIds(new Set(placed.map((el) => el.id)));
+    updateStatus(
+      placed.length === 1
+        ? "Element pasted"
+        : `${placed.length} elements pasted`,
+      "success",
+    );
+  };
+
+  // Copy (or cut) the selected elements for pasting on any board, in any
+  // tab. Textboxes' text goes along as plain text for other apps.
+  const handleCopy = (e: ClipboardEvent, cut = false) => {
+    if (selectedElementIds.size === 0 || !e.clipboardData) return;
+    if (isEditingText() || !(window.getSelection()?.isCollapsed ?? true)) {
+      return;
+    }
+
+    // Cutting leaves locked elements where they are
+    const copied = elements.filter(
+      (el) => selectedElementIds.has(el.id) && !(cut && el.locked),
+    );
+    e.preventDefault();
+    if (copied.length === 0) {
+      updateStatus("Locked elements can't be cut", "warning");
+      return;
+    }
+
+    e.clipboardData.setData(
+      ELEMENTS_MIME_TYPE,
+      serializeElements(copied, boardId),
+    );
+    const text = copied
+      .filter((el) => el.type === "textbox" && el.content)
+      .map((el) => el.content)
+      .join("\n");
+    if (text) e.clipboardData.setData("text/plain", text);
+    lastPasteRef.current = null;
+
+    const count = copied.length === 1 ? "Element" : `${copied.length} elements`;
+    if (cut) {
+      const cutIds = new Set(copied.map((el) => el.id));
+      updateElementsWithHistory(elements.filter((el) => !cutIds.has(el.id)));
+      setSelectedElementIds(
+        new Set([...selectedElementIds].filter((id) => !cutIds.has(id))),
+      );
+      updateStatus(`${count} cut`, "success");
+    } else {
+      updateStatus(`${count} copied`, "success");
+    }
+  };
+
+  const handleCut = (e: ClipboardEvent) => handleCopy(e, true);
+
+  // Duplicate the selection just below and to the right of itself
+  const handleDuplicate = () => {
+    const selected = elements.filter((el) => selectedElementIds.has(el.id));
+    if (selected.length === 0) return;
+    const copies = cloneElements(selected, {
+      x: DUPLICATE_OFFSET,
+      y: DUPLICATE_OFFSET,
+    });
+    updateElementsWithHistory([...elements, ...copies]);
+    setSelectedElementIds(new Set(copies.map((el) => el.id)));
+    updateStatus(
+      copies.length === 1
+        ? "Element duplicated"
+        : `${copies.length} elements duplicated`,
+      "success",
+    );
+  };
+
+  // Handle paste event for copied elements and images
   const handlePaste = (e: ClipboardEvent) => {
+    if (
+      e.clipboardData?.types.includes(ELEMENTS_MIME_TYPE) &&
+      !isEditingText()
+    ) {
+      e.preventDefault();
+      handlePasteElements(e.clipboardData.getData(ELEMENTS_MIME_TYPE));
+      return;
+    }
+
     const clipboardItems = e.clipboardData?.items || [];
 
     for (let i = 0; i < clipboardItems.length; i++) {
@@ -405,29 +908,41 @@ export function useCanvasElements({
     }
   };
 
-  // Handle rotation
-  const handleRotate = (elementId: string, deltaRotation: number) => {
+  // Handle measurement update for textbox auto-sizing
+  // Measurement callback from useAutoSizing: re-fit auto-fit textboxes
+  // whenever their rendered text changes size (typing, style or font loads)
+  const handleMeasure = (elementId: string) => {
+    setElements((prev) => {
+      const el = prev.find((e) => e.id === elementId);
+      if (!el || el.type !== "textbox" || el.textSizing !== "fit") return prev;
+
+      const fontSize = fitTextboxFontSize(el);
+      if (fontSize === el.fontSize) return prev;
+      return prev.map((e) => (e.id === elementId ? { ...e, fontSize } : e));
+    });
+  };
+
+  // Switch a textbox between growing with its text and a fixed-size box.
+  // A fixed box starts at the size the text currently takes up.
+  const handleSetTextSizing = (id: string, textSizing: TextSizing) => {
     const newElements = elements.map((el) => {
-      if (el.id === elementId) {
-        const currentRotation = el.rotation || 0;
-        return {
-          ...el,
-          rotation: (currentRotation + deltaRotation) % 360,
-        };
+      if (el.id !== id) return el;
+      if (textSizing === "auto") {
+        return { ...el, textSizing, width: undefined, height: undefined };
       }
-      return el;
+
+      const layout = layoutTextbox(el);
+      const sized = {
+        ...el,
+        textSizing,
+        width: el.width ?? layout.width,
+        height: isFixedSizeTextbox(el) ? el.height : layout.height,
+      };
+      return textSizing === "fit"
+        ? { ...sized, fontSize: fitTextboxFontSize(sized) }
+        : sized;
     });
     updateElementsWithHistory(newElements);
-    updateStatus("Element rotated", "success");
-  };
-
-  // Handle measurement update for textbox auto-sizing
-  const handleMeasure = (
-    _elementId: string,
-    _width: number,
-    _height: number,
-  ) => {
-    // Measurement callback for textbox auto-sizing (dimensions tracked via ResizeObserver)
   };
 
   // Background removal
@@ -462,6 +977,7 @@ export function useCanvasElements({
       const newBlobKey = `${id}-${Date.now()}`;
       await db.imageBlobs.put({
         id: newBlobKey,
+        boardId,
         blob: resultBlob,
         storedAt: Date.now(),
       });
@@ -506,10 +1022,16 @@ export function useCanvasElements({
 
   // Cleanup unreferenced images
   const handleCleanupUnreferencedImages = useCallback(async () => {
-    // Collect all blob keys referenced across the entire history so we don't
-    // delete anything that an undo/redo state still needs.
+    // Collect all blob keys referenced across the entire history - both the
+    // in-memory stack and the one persisted for reloads - so we don't delete
+    // anything that an undo/redo state still needs.
+    const persistedHistory = await db.histories.get(boardId);
     const referencedBlobKeys = new Set<string>();
-    for (const entry of history) {
+    for (const entry of [
+      elements,
+      ...history,
+      ...(persistedHistory?.entries ?? []),
+    ]) {
       for (const el of entry) {
         if (el.type === "image") {
           // Use blobKey if present, otherwise fall back to the element id
@@ -518,7 +1040,11 @@ export function useCanvasElements({
       }
     }
 
-    const storedBlobs = await db.imageBlobs.toArray();
+    // Only this board's blobs are candidates; other boards track their own
+    const storedBlobs = await db.imageBlobs
+      .where("boardId")
+      .equals(boardId)
+      .toArray();
     let cleanedCount = 0;
 
     for (const blob of storedBlobs) {
@@ -533,13 +1059,19 @@ export function useCanvasElements({
     }
 
     return cleanedCount;
-  }, [history]);
+  }, [boardId, elements, history]);
 
-  // Setup paste event listener
+  // Setup clipboard event listeners
   useEffect(() => {
     document.addEventListener("paste", handlePaste);
-    return () => document.removeEventListener("paste", handlePaste);
-  }, [elements, cursorPosition]);
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("cut", handleCut);
+    return () => {
+      document.removeEventListener("paste", handlePaste);
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("cut", handleCut);
+    };
+  }, [elements, cursorPosition, selectedElementIds, snapGridSize, zoom]);
 
   // Cleanup: revoke object URLs when component unmounts
   useEffect(() => {
@@ -560,17 +1092,33 @@ export function useCanvasElements({
     handleElementFocus,
     handleElementBlur,
     handleElementSelect,
-    handleToggleFont,
-    handleToggleItalic,
-    handleToggleTextColor,
-    handleRotate,
+    handleSetTextStyle,
+    handlePreviewTextStyle,
+    handleSetTextRuns,
+    handleGroupSelection,
+    handleUngroupSelection,
+    handleReorder,
+    handleAlign,
+    handleDistribute,
+    handleNudge,
+    handleRotateSelection,
+    handleFlipSelection,
+    handleScaleSelection,
+    handleDuplicate,
+    handleLayerSelect,
+    handleMoveLayer,
+    handleRenameElement,
+    handleToggleHidden,
+    handleToggleLocked,
+    handleSetSelectionLocked,
     handleMeasure,
+    handleSetTextSizing,
     handleCleanupUnreferencedImages,
     handleRemoveBackground,
     handleCropImage,
     bgRemovalProcessingIds,
     handleSetShapeFillColor,
-    handleStartShapeEyedropper,
+    handleStartEyedropper,
     eyedropperTargetId,
   };
 }
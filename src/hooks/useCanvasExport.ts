@@ -0,0 +1,93 @@
+import { useCallback } from "react";
+import type { CanvasElementData } from "../types/canvas";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  downloadBlob,
+  exportElements,
+  getDefaultPixelRatio,
+  type ExportOptions,
+} from "../utils/exportCanvas";
+
+export type ExportScope = "selection" | "all";
+
+interface UseCanvasExportParams {
+  elements: CanvasElementData[];
+  selectedElementIds: Set<string>;
+  updateStatus: (
+    message: string,
+    type?: "info" | "success" | "error" | "warning",
+  ) => void;
+}
+
+export function useCanvasExport({
+  elements,
+  selectedElementIds,
+  updateStatus,
+}: UseCanvasExportParams) {
+  // Visible elements to export, kept in stacking order
+  const getScopeElements = useCallback(
+    (scope: ExportScope) =>
+      elements.filter(
+        (el) =>
+          !el.hidden &&
+          (scope === "all" || selectedElementIds.has(el.id)),
+      ),
+    [elements, selectedElementIds],
+  );
+
+  const handleExport = useCallback(
+    async (scope: ExportScope, options: ExportOptions) => {
+      const toExport = getScopeElements(scope);
+      if (toExport.length === 0) {
+        updateStatus("Nothing to export", "warning");
+        return;
+      }
+
+      const { label, extension } = EXPORT_FORMATS[options.format];
+      updateStatus("Exporting...", "info");
+      try {
+        const blob = await exportElements(toExport, options);
+        downloadBlob(blob, `gloop-${Date.now()}.${extension}`);
+        updateStatus(`Exported ${label}`, "success");
+      } catch (error) {
+        console.error("Failed to export:", error);
+        updateStatus("Failed to export", "error");
+      }
+    },
+    [getScopeElements, updateStatus],
+  );
+
+  // Copy the selection to the system clipboard as a PNG - the reverse of
+  // pasting an image onto the canvas
+  const handleCopySelectionAsImage = useCallback(async () => {
+    const toCopy = getScopeElements("selection");
+    if (toCopy.length === 0) {
+      updateStatus("Select elements to copy as an image", "warning");
+      return;
+    }
+    if (!navigator.clipboard?.write || typeof ClipboardItem === "undefined") {
+      updateStatus("Clipboard images aren't supported in this browser", "error");
+      return;
+    }
+
+    updateStatus("Copying image...", "info");
+    try {
+      // Pass the blob as a promise so the clipboard write starts while we're
+      // still inside the user gesture (required by Safari)
+      const blob = exportElements(toCopy, {
+        ...DEFAULT_EXPORT_OPTIONS,
+        pixelRatio: getDefaultPixelRatio(),
+      });
+      await navigator.clipboard.write([
+        new ClipboardItem({ "image/png": blob }),
+      ]);
+      updateStatus("Image copied to clipboard", "success");
+    } catch (error) {
+      console.error("Failed to copy image:", error);
+      updateStatus("Failed to copy image", "error");
+    }
+  }, [getScopeElements, updateStatus]);
+
+  return { handleExport, handleCopySelectionAsImage };
+}
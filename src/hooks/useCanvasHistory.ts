@@ -9,9 +9,17 @@ export function useCanvasHistory() {
   const [history, setHistory] = useState<CanvasElementData[][]>([[]]);
   const [historyIndex, setHistoryIndex] = useState(0);
 
-  // Update elements and push to history stack
-  const updateElementsWithHistory = (newElements: CanvasElementData[]) => {
-    const newHistory = history.slice(0, historyIndex + 1);
+  // Update elements and push to history stack. With `merge`, the change
+  // replaces the current entry instead, so a run of small edits (like
+  // keyboard nudges) undoes in one step. The initial entry is never replaced.
+  const updateElementsWithHistory = (
+    newElements: CanvasElementData[],
+    merge = false,
+  ) => {
+    const newHistory = history.slice(
+      0,
+      merge && historyIndex > 0 ? historyIndex : historyIndex + 1,
+    );
     newHistory.push(newElements);
     setHistory(newHistory);
     setHistoryIndex(newHistory.length - 1);
@@ -36,11 +44,23 @@ export function useCanvasHistory() {
     }
   };
 
+  // Restore persisted state; without a saved history the loaded elements
+  // become the only entry
   const handleLoadElements = useCallback(
-    (loadedElements: CanvasElementData[]) => {
+    (
+      loadedElements: CanvasElementData[],
+      loadedHistory?: { entries: CanvasElementData[][]; index: number },
+    ) => {
       setElements(loadedElements);
-      setHistory([loadedElements]);
-      setHistoryIndex(0);
+      if (loadedHistory && loadedHistory.entries.length > 0) {
+        setHistory(loadedHistory.entries);
+        setHistoryIndex(
+          Math.min(loadedHistory.index, loadedHistory.entries.length - 1),
+        );
+      } else {
+        setHistory([loadedElements]);
+        setHistoryIndex(0);
+      }
     },
     [],
   );
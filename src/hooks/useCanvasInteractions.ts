@@ -1,18 +1,95 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import type {
   CanvasElementData,
+  ContextMenuState,
   DragState,
+  GroupTransformState,
   MarqueeState,
+  ResizeHandle,
+  ResizeState,
   RotateState,
+  SelectionFrame,
 } from "../types/canvas";
+import {
+  MAX_FONT_SIZE,
+  MIN_FONT_SIZE,
+  TEXTBOX_MIN_WIDTH,
+  fitTextboxFontSize,
+  isFixedSizeTextbox,
+} from "../utils/textLayout";
+import {
+  getElementBounds,
+  getElementBox,
+  resizeBox,
+  rotateElementAround,
+  scaleElementWithin,
+  unionBoxes,
+  type Box,
+} from "../utils/geometry";
+import { getGroupToEnter, getSelectionTargetIds } from "../utils/groups";
+import { cloneElements } from "../utils/duplicate";
+import { SNAP_THRESHOLD, snapBox, type SnapHints } from "../utils/snapping";
+import { snapResizeDelta, snapToGrid } from "../utils/grid";
+
+// Smallest box an image, shape or fixed-size textbox can be resized to
+const MIN_RESIZE_SIZE = 20;
+
+// Size an image's cropped view to a box being resized, the way Image
+// renders it once the new size is committed
+function previewCropSize(domEl: HTMLElement, width: number, height: number) {
+  const cropInfoAttr = domEl.dataset.cropInfo;
+  if (!cropInfoAttr) return;
+  const ci = JSON.parse(cropInfoAttr);
+  const cropContainer = domEl.querySelector('[data-crop-container]') as HTMLElement;
+  const cropImg = cropContainer?.querySelector('img') as HTMLElement;
+  if (cropContainer && cropImg) {
+    cropContainer.style.width = `${width}px`;
+    cropContainer.style.height = `${height}px`;
+    const sx = width / ci.w;
+    const sy = height / ci.h;
+    cropImg.style.width = `${ci.nw * sx}px`;
+    cropImg.style.height = `${ci.nh * sy}px`;
+    cropImg.style.left = `${-ci.x * sx}px`;
+    cropImg.style.top = `${-ci.y * sy}px`;
+  }
+}
+
+// Undo the inline styles a resize preview left on an element
+function clearResizePreview(domEl: HTMLElement) {
+  domEl.style.transition = "";
+  domEl.style.left = "";
+  domEl.style.top = "";
+  domEl.style.width = "";
+  domEl.style.height = "";
+  const contentDiv = domEl.querySelector("[contenteditable]") as HTMLElement;
+  if (contentDiv) {
+    contentDiv.style.fontSize = "";
+  }
+  // Clear inner crop element overrides
+  const cropContainer = domEl.querySelector('[data-crop-container]') as HTMLElement;
+  const cropImg = cropContainer?.querySelector('img') as HTMLElement;
+  if (cropContainer) {
+    cropContainer.style.width = "";
+    cropContainer.style.height = "";
+  }
+  if (cropImg) {
+    cropImg.style.width = "";
+    cropImg.style.height = "";
+    cropImg.style.left = "";
+    cropImg.style.top = "";
+  }
+}
 
 interface UseCanvasInteractionsParams {
   elements: CanvasElementData[];
+  setElements: React.Dispatch<React.SetStateAction<CanvasElementData[]>>;
   selectedElementIds: Set<string>;
   setSelectedElementIds: React.Dispatch<React.SetStateAction<Set<string>>>;
   updateElementsWithHistory: (newElements: CanvasElementData[]) => void;
   canvasRef: React.RefObject<HTMLDivElement | null>;
   zoom: number;
+  // Grid spacing to snap moves and resizes to, or null when snapping is off
+  snapGridSize: number | null;
   updateStatus: (
     message: string,
     type?: "info" | "success" | "error" | "warning",
@@ -21,11 +98,13 @@ interface UseCanvasInteractionsParams {
 
 export function useCanvasInteractions({
   elements,
+  setElements,
   selectedElementIds,
   setSelectedElementIds,
   updateElementsWithHistory,
   canvasRef,
   zoom,
+  snapGridSize,
   updateStatus,
 }: UseCanvasInteractionsParams) {
   const [dragState, setDragState] = useState<DragState | null>(null);
@@ -38,14 +117,40 @@ export function useCanvasInteractions({
     { x: number; y: number }
   > | null>(null);
   const draggedElementsRef = useRef<HTMLElement[]>([]);
+  // Bounds of the dragged selection and of everything it can snap to,
+  // captured once the drag starts
+  const dragSnapRef = useRef<{ box: Box; targets: Box[] } | null>(null);
+  // Whether Alt has been up since the drag started. The Alt that starts an
+  // Alt+drag duplicate doesn't also turn snapping off.
+  const dragAltReleasedRef = useRef(false);
+  const [snapHints, setSnapHints] = useState<SnapHints | null>(null);
+  const snapHintsKeyRef = useRef("");
   const marqueeJustEndedRef = useRef(false);
   const rotateStateRef = useRef<RotateState | null>(null);
   const pendingRotationRef = useRef<number | null>(null);
-  const pendingSizeRef = useRef<{
-    width?: number;
-    height?: number;
-    fontSize?: number;
-  } | null>(null);
+  const resizeStateRef = useRef<ResizeState | null>(null);
+  const pendingResizeRef = useRef<Partial<CanvasElementData> | null>(null);
+  const groupTransformRef = useRef<GroupTransformState | null>(null);
+  const pendingGroupRef = useRef<Map<string, CanvasElementData> | null>(null);
+  const [selectionFrame, setSelectionFrame] = useState<SelectionFrame | null>(
+    null,
+  );
+  // Group the user double-clicked into; clicks select inside it
+  const [enteredGroupId, setEnteredGroupId] = useState<string | null>(null);
+  // Selected element that alignment lines the rest of the selection up with
+  const [keyElementId, setKeyElementId] = useState<string | null>(null);
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+
+  // Helper: show snap guides, skipping re-renders when nothing changed
+  const updateSnapHints = useCallback((hints: SnapHints | null) => {
+    const key =
+      hints && (hints.guides.length > 0 || hints.gaps.length > 0)
+        ? JSON.stringify(hints)
+        : "";
+    if (key === snapHintsKeyRef.current) return;
+    snapHintsKeyRef.current = key;
+    setSnapHints(key ? hints : null);
+  }, []);
 
   // Helper: get canvas-relative coordinates from mouse event
   const getCanvasCoords = useCallback(
@@ -70,39 +175,34 @@ export function useCanvasInteractions({
     return { x, y, w, h };
   }, []);
 
-  // Helper: check if element intersects marquee rect
+  // Helper: check if element intersects marquee rect, using its rotated
+  // bounds
   const elementIntersectsRect = useCallback(
     (
       el: CanvasElementData,
       rect: { x: number; y: number; w: number; h: number },
     ) => {
-      let elW = el.width;
-      let elH = el.height;
-
-      if (!elW || !elH) {
-        const domEl = document.querySelector(
-          `[data-element-id="${el.id}"]`,
-        ) as HTMLElement;
-        if (domEl) {
-          const domRect = domEl.getBoundingClientRect();
-          elW = elW || domRect.width / zoom;
-          elH = elH || domRect.height / zoom;
-        } else {
-          elW = elW || 100;
-          elH = elH || 30;
-        }
-      }
+      // Locked and hidden elements can't be marquee-selected
+      if (el.locked || el.hidden) return false;
 
+      const bounds = getElementBounds(el);
       return !(
-        el.x + elW < rect.x ||
-        el.x > rect.x + rect.w ||
-        el.y + elH < rect.y ||
-        el.y > rect.y + rect.h
+        bounds.x + bounds.width < rect.x ||
+        bounds.x > rect.x + rect.w ||
+        bounds.y + bounds.height < rect.y ||
+        bounds.y > rect.y + rect.h
       );
     },
-    [zoom],
+    [],
   );
 
+  // Helper: element under a mouse event's target, if any
+  const getEventElement = (e: React.MouseEvent<HTMLDivElement>) => {
+    const domEl = (e.target as HTMLElement).closest("[data-element-id]");
+    const id = domEl?.getAttribute("data-element-id");
+    return id ? elements.find((el) => el.id === id) : undefined;
+  };
+
   // Handle canvas click to deselect (skip if a real marquee just finished)
   const handleCanvasClick = () => {
     if (marqueeJustEndedRef.current) {
@@ -110,31 +210,97 @@ export function useCanvasInteractions({
       return;
     }
     setSelectedElementIds(new Set());
+    setEnteredGroupId(null);
+    setKeyElementId(null);
+  };
+
+  // Handle double-click on a grouped element to enter its group and select
+  // the next level down
+  const handleCanvasDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const element = getEventElement(e);
+    if (!element || element.locked) return;
+
+    const groupId = getGroupToEnter(element, enteredGroupId);
+    if (!groupId) return;
+
+    setEnteredGroupId(groupId);
+    setSelectedElementIds(
+      new Set(getSelectionTargetIds(elements, element, groupId)),
+    );
   };
 
+  // Handle right-click on an element: select it (or its group) unless it's
+  // already part of the selection, then open the context menu. Locked
+  // elements can be selected this way so they can be unlocked. Text being
+  // edited keeps the browser's own menu.
+  const handleCanvasContextMenu = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.isContentEditable && document.activeElement === target) return;
+
+    const element = getEventElement(e);
+    if (!element) return;
+
+    e.preventDefault();
+    if (!selectedElementIds.has(element.id)) {
+      setSelectedElementIds(
+        new Set(
+          element.locked
+            ? [element.id]
+            : getSelectionTargetIds(elements, element, enteredGroupId),
+        ),
+      );
+    }
+    setContextMenu({ x: e.clientX, y: e.clientY });
+  };
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+  const clearKeyElement = useCallback(() => setKeyElementId(null), []);
+
   // Handle mouse down on element to start drag
   const handleElementMouseDown = (elementId: string) => {
     return (e: React.MouseEvent<HTMLDivElement>) => {
       e.stopPropagation();
+      // Right-clicks select through the context menu handler
+      if (e.button !== 0) return;
 
       const element = elements.find((el) => el.id === elementId);
       if (!element) return;
 
+      // Locked elements act like the canvas background, so a marquee can
+      // start on top of them
+      if (element.locked) {
+        handleCanvasMouseDown(e);
+        return;
+      }
+
+      // Clicking a grouped element picks its whole group
+      const targetIds = getSelectionTargetIds(
+        elements,
+        element,
+        enteredGroupId,
+      );
+
       // Shift+click: toggle selection, don't start drag
       if (e.shiftKey) {
         const next = new Set(selectedElementIds);
         if (next.has(elementId)) {
-          next.delete(elementId);
+          for (const id of targetIds) next.delete(id);
         } else {
-          next.add(elementId);
+          for (const id of targetIds) next.add(id);
         }
         setSelectedElementIds(next);
+        if (keyElementId && !next.has(keyElementId)) setKeyElementId(null);
         return;
       }
 
-      // If element is already selected, start drag for ALL selected elements
-      if (selectedElementIds.has(elementId)) {
-        const ids = Array.from(selectedElementIds);
+      // If element is already selected, start drag for ALL selected elements.
+      // Clicking without dragging makes it the key object, or stops it
+      // being one.
+      if (targetIds.every((id) => selectedElementIds.has(id))) {
+        const ids = elements
+          .filter((el) => selectedElementIds.has(el.id) && !el.locked)
+          .map((el) => el.id);
         const starts = new Map<string, { x: number; y: number }>();
         for (const id of ids) {
           const el = elements.find((e) => e.id === id);
@@ -145,17 +311,25 @@ export function useCanvasInteractions({
           startX: e.clientX,
           startY: e.clientY,
           elementStarts: starts,
+          keyCandidateId:
+            selectedElementIds.size > targetIds.length ? elementId : undefined,
+          duplicate: e.altKey,
         });
       } else {
-        // Select only this element and start drag for it
-        setSelectedElementIds(new Set([elementId]));
+        // Select only this element (or its group) and start drag for it
+        const starts = new Map<string, { x: number; y: number }>();
+        for (const id of targetIds) {
+          const el = elements.find((e) => e.id === id);
+          if (el) starts.set(id, { x: el.x, y: el.y });
+        }
+        setSelectedElementIds(new Set(targetIds));
+        setKeyElementId(null);
         setDragState({
-          elementIds: [elementId],
+          elementIds: targetIds,
           startX: e.clientX,
           startY: e.clientY,
-          elementStarts: new Map([
-            [elementId, { x: element.x, y: element.y }],
-          ]),
+          elementStarts: starts,
+          duplicate: e.altKey,
         });
       }
     };
@@ -164,7 +338,8 @@ export function useCanvasInteractions({
   // Handle mouse down on canvas background to start marquee
   const handleCanvasMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
     if (e.button !== 0) return;
-    if ((e.target as HTMLElement).closest("[data-element-id]")) return;
+    const element = getEventElement(e);
+    if (element && !element.locked) return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -173,6 +348,8 @@ export function useCanvasInteractions({
 
     setMarqueeState({ startX: x, startY: y, currentX: x, currentY: y });
     setSelectedElementIds(new Set());
+    setEnteredGroupId(null);
+    setKeyElementId(null);
   };
 
   // Handle mouse down on rotate handle
@@ -197,24 +374,75 @@ export function useCanvasInteractions({
         e.clientY - centerY,
         e.clientX - centerX,
       );
-      const startDistance = Math.sqrt(
-        Math.pow(e.clientX - centerX, 2) + Math.pow(e.clientY - centerY, 2),
-      );
 
       rotateStateRef.current = {
         elementId,
         centerX,
         centerY,
         startAngle,
-        startDistance,
         elementStartRotation: element.rotation || 0,
+      };
+    };
+  };
+
+  // Handle mouse down on one of an element's resize handles
+  const handleResizeHandleMouseDown = (elementId: string) => {
+    return (e: React.MouseEvent<HTMLDivElement>, handle: ResizeHandle) => {
+      e.stopPropagation();
+
+      const element = elements.find((el) => el.id === elementId);
+      if (!element) return;
+
+      setSelectedElementIds(new Set([elementId]));
+
+      const { x, y } = getCanvasCoords(e.nativeEvent);
+      resizeStateRef.current = {
+        elementId,
+        handle,
+        startX: x,
+        startY: y,
+        startBox: getElementBox(element),
+        rotation: element.rotation || 0,
         elementStartWidth: element.width,
-        elementStartHeight: element.height,
         elementStartFontSize: element.fontSize,
       };
     };
   };
 
+  // Start rotating or scaling the whole multi-element selection
+  const startGroupTransform = (
+    e: React.MouseEvent<HTMLDivElement>,
+    mode: GroupTransformState["mode"],
+    handle?: ResizeHandle,
+  ) => {
+    e.stopPropagation();
+
+    const selected = elements.filter(
+      (el) => selectedElementIds.has(el.id) && !el.locked && !el.hidden,
+    );
+    const startBox = unionBoxes(selected.map(getElementBounds));
+    if (!startBox) return;
+
+    const { x, y } = getCanvasCoords(e.nativeEvent);
+    groupTransformRef.current = {
+      mode,
+      handle,
+      startX: x,
+      startY: y,
+      startBox,
+      startElements: selected,
+    };
+    setSelectionFrame({ box: startBox, rotation: 0 });
+  };
+
+  const handleGroupRotateHandleMouseDown = (
+    e: React.MouseEvent<HTMLDivElement>,
+  ) => startGroupTransform(e, "rotate");
+
+  const handleGroupResizeHandleMouseDown = (
+    e: React.MouseEvent<HTMLDivElement>,
+    handle: ResizeHandle,
+  ) => startGroupTransform(e, "resize", handle);
 
   // Disable text selection while actively dragging or marquee-selecting
   useEffect(() => {
@@ -231,85 +459,164 @@ export function useCanvasInteractions({
   // Track cursor position and handle dragging/marquee with single event listener
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
-      // Handle rotation and resize drag
+      // Handle rotation drag
       if (rotateStateRef.current) {
         const rs = rotateStateRef.current;
         const currentAngle = Math.atan2(
           e.clientY - rs.centerY,
           e.clientX - rs.centerX,
         );
-        const currentDistance = Math.sqrt(
-          Math.pow(e.clientX - rs.centerX, 2) +
-            Math.pow(e.clientY - rs.centerY, 2),
-        );
 
         const deltaAngle = (currentAngle - rs.startAngle) * (180 / Math.PI);
         const newRotation = rs.elementStartRotation + deltaAngle;
-        const scaleFactor = currentDistance / rs.startDistance;
-
-        const element = elements.find((el) => el.id === rs.elementId);
-        if (!element) return;
 
         const domEl = document.querySelector(
           `[data-element-id="${rs.elementId}"]`,
         ) as HTMLElement;
+        if (domEl) {
+          domEl.style.transform = `rotate(${newRotation}deg)`;
+        }
 
-        if (element.type === "image" || element.type === "shape") {
-          const newWidth = Math.max(
-            50,
-            (rs.elementStartWidth || 200) * scaleFactor,
+        pendingRotationRef.current = newRotation;
+        return;
+      }
+
+      // Handle rotating or scaling a multi-element selection. The preview
+      // isn't recorded in the history; the result is committed on mouseup.
+      if (groupTransformRef.current) {
+        const gs = groupTransformRef.current;
+        const { x, y } = getCanvasCoords(e);
+        const center = {
+          x: gs.startBox.x + gs.startBox.width / 2,
+          y: gs.startBox.y + gs.startBox.height / 2,
+        };
+
+        let transformed: CanvasElementData[];
+        if (gs.mode === "rotate") {
+          const deltaRotation =
+            (Math.atan2(y - center.y, x - center.x) -
+              Math.atan2(gs.startY - center.y, gs.startX - center.x)) *
+            (180 / Math.PI);
+          transformed = gs.startElements.map((el) =>
+            rotateElementAround(el, center, deltaRotation),
+          );
+          setSelectionFrame({ box: gs.startBox, rotation: deltaRotation });
+        } else {
+          // Rotated elements can't be stretched along the selection's
+          // axes, so the selection always scales uniformly
+          const box = resizeBox(
+            gs.startBox,
+            0,
+            gs.handle ?? "se",
+            x - gs.startX,
+            y - gs.startY,
+            {
+              keepAspectRatio: true,
+              fromCenter: e.altKey,
+              minWidth: MIN_RESIZE_SIZE,
+              minHeight: MIN_RESIZE_SIZE,
+            },
           );
-          const newHeight = Math.max(
-            50,
-            (rs.elementStartHeight || 200) * scaleFactor,
+          transformed = gs.startElements.map((el) =>
+            scaleElementWithin(el, gs.startBox, box),
           );
+          setSelectionFrame({ box, rotation: 0 });
+        }
 
-          if (domEl) {
-            domEl.style.transition = 'none';
-            domEl.style.transform = `rotate(${newRotation}deg)`;
-            domEl.style.width = `${newWidth}px`;
-            domEl.style.height = `${newHeight}px`;
-
-            // Update inner crop elements if present
-            const cropInfoAttr = domEl.dataset.cropInfo;
-            if (cropInfoAttr) {
-              const ci = JSON.parse(cropInfoAttr);
-              const cropContainer = domEl.querySelector('[data-crop-container]') as HTMLElement;
-              const cropImg = cropContainer?.querySelector('img') as HTMLElement;
-              if (cropContainer && cropImg) {
-                cropContainer.style.width = `${newWidth}px`;
-                cropContainer.style.height = `${newHeight}px`;
-                const sx = newWidth / ci.w;
-                const sy = newHeight / ci.h;
-                cropImg.style.width = `${ci.nw * sx}px`;
-                cropImg.style.height = `${ci.nh * sy}px`;
-                cropImg.style.left = `${-ci.x * sx}px`;
-                cropImg.style.top = `${-ci.y * sy}px`;
-              }
-            }
-          }
+        const byId = new Map(transformed.map((el) => [el.id, el]));
+        pendingGroupRef.current = byId;
+        setElements((prev) => prev.map((el) => byId.get(el.id) ?? el));
+        return;
+      }
+
+      // Handle resize drag. Shift keeps the aspect ratio, Alt resizes
+      // around the center.
+      if (resizeStateRef.current) {
+        const rs = resizeStateRef.current;
+        const element = elements.find((el) => el.id === rs.elementId);
+        if (!element) return;
+
+        const { x, y } = getCanvasCoords(e);
+        const domEl = document.querySelector(
+          `[data-element-id="${rs.elementId}"]`,
+        ) as HTMLElement;
+        if (domEl) domEl.style.transition = "none";
+
+        // Fixed-size textboxes resize their box like images and shapes; the
+        // corners of the rest scale their text, and the sides set the width
+        // it wraps at
+        const scalesText =
+          element.type === "textbox" &&
+          !isFixedSizeTextbox(element) &&
+          rs.handle.length === 2;
+        const isTextbox = element.type === "textbox";
+        const delta = snapGridSize
+          ? snapResizeDelta(
+              rs.startBox,
+              rs.rotation,
+              rs.handle,
+              x - rs.startX,
+              y - rs.startY,
+              snapGridSize,
+            )
+          : { dx: x - rs.startX, dy: y - rs.startY };
+        const box = resizeBox(
+          rs.startBox,
+          rs.rotation,
+          rs.handle,
+          delta.dx,
+          delta.dy,
+          {
+            keepAspectRatio: e.shiftKey || scalesText,
+            fromCenter: e.altKey,
+            minWidth: isTextbox ? TEXTBOX_MIN_WIDTH : MIN_RESIZE_SIZE,
+            minHeight: MIN_RESIZE_SIZE,
+          },
+        );
 
-          pendingSizeRef.current = { width: newWidth, height: newHeight };
-        } else if (element.type === "textbox") {
-          const newFontSize = Math.max(
-            8,
-            Math.min(200, (rs.elementStartFontSize || 16) * scaleFactor),
+        if (scalesText) {
+          const scale = box.width / rs.startBox.width;
+          const fontSize = Math.max(
+            MIN_FONT_SIZE,
+            Math.min(MAX_FONT_SIZE, (rs.elementStartFontSize || 16) * scale),
           );
+          const width =
+            rs.elementStartWidth !== undefined
+              ? rs.elementStartWidth * scale
+              : undefined;
 
           if (domEl) {
-            domEl.style.transform = `rotate(${newRotation}deg)`;
+            domEl.style.left = `${box.x}px`;
+            domEl.style.top = `${box.y}px`;
+            if (width !== undefined) domEl.style.width = `${width}px`;
             const contentDiv = domEl.querySelector(
               "[contenteditable]",
             ) as HTMLElement;
             if (contentDiv) {
-              contentDiv.style.fontSize = `${newFontSize}px`;
+              contentDiv.style.fontSize = `${fontSize}px`;
             }
           }
 
-          pendingSizeRef.current = { fontSize: newFontSize };
-        }
+          pendingResizeRef.current = { x: box.x, y: box.y, width, fontSize };
+        } else if (isTextbox && !isFixedSizeTextbox(element)) {
+          if (domEl) {
+            domEl.style.left = `${box.x}px`;
+            domEl.style.top = `${box.y}px`;
+            domEl.style.width = `${box.width}px`;
+          }
 
-        pendingRotationRef.current = newRotation;
+          pendingResizeRef.current = { x: box.x, y: box.y, width: box.width };
+        } else {
+          if (domEl) {
+            domEl.style.left = `${box.x}px`;
+            domEl.style.top = `${box.y}px`;
+            domEl.style.width = `${box.width}px`;
+            domEl.style.height = `${box.height}px`;
+            previewCropSize(domEl, box.width, box.height);
+          }
+
+          pendingResizeRef.current = { ...box };
+        }
         return;
       }
 
@@ -327,7 +634,10 @@ export function useCanvasInteractions({
         const intersecting = new Set<string>();
         for (const el of elements) {
           if (elementIntersectsRect(el, rect)) {
-            intersecting.add(el.id);
+            // Touching any member of a group selects all of it
+            for (const id of getSelectionTargetIds(elements, el, null)) {
+              intersecting.add(id);
+            }
           }
         }
         setSelectedElementIds(intersecting);
@@ -352,10 +662,68 @@ export function useCanvasInteractions({
 
       // Handle multi-drag with smooth mousemove
       if (isDragging && dragState) {
+        // Alt+drag moves the elements and leaves copies where they were,
+        // just behind them. Added on the first move so the copies and the
+        // move are committed together.
+        if (dragState.duplicate && !dragPositionsRef.current) {
+          const draggedIds = new Set(dragState.elementIds);
+          const dragged = elements.filter((el) => draggedIds.has(el.id));
+          const copies = cloneElements(dragged);
+          const copyOf = new Map(dragged.map((el, i) => [el.id, copies[i]]));
+          setElements((prev) =>
+            prev.flatMap((el) => {
+              const copy = copyOf.get(el.id);
+              return copy ? [copy, el] : [el];
+            }),
+          );
+        }
+
         const deltaXScreen = e.clientX - dragState.startX;
         const deltaYScreen = e.clientY - dragState.startY;
-        const deltaX = deltaXScreen / zoom;
-        const deltaY = deltaYScreen / zoom;
+        let deltaX = deltaXScreen / zoom;
+        let deltaY = deltaYScreen / zoom;
+
+        if (!dragSnapRef.current) {
+          const draggedIds = new Set(dragState.elementIds);
+          const box = unionBoxes(
+            elements
+              .filter((el) => draggedIds.has(el.id))
+              .map(getElementBounds),
+          );
+          const targets = elements
+            .filter((el) => !draggedIds.has(el.id) && !el.hidden)
+            .map(getElementBounds);
+          if (box) dragSnapRef.current = { box, targets };
+        }
+
+        // Snap to other elements' edges, centers and spacing, falling back
+        // to the grid on axes with nothing nearby; pressing Alt during the
+        // drag disables both
+        if (!e.altKey) dragAltReleasedRef.current = true;
+        const moveFreely =
+          e.altKey && (!dragState.duplicate || dragAltReleasedRef.current);
+        const snapStart = dragSnapRef.current;
+        if (snapStart && !moveFreely) {
+          const { box } = snapStart;
+          const snap = snapBox(
+            { ...box, x: box.x + deltaX, y: box.y + deltaY },
+            snapStart.targets,
+            SNAP_THRESHOLD / zoom,
+          );
+          if (snap.dx !== null) {
+            deltaX += snap.dx;
+          } else if (snapGridSize) {
+            deltaX = snapToGrid(box.x + deltaX, snapGridSize) - box.x;
+          }
+          if (snap.dy !== null) {
+            deltaY += snap.dy;
+          } else if (snapGridSize) {
+            deltaY = snapToGrid(box.y + deltaY, snapGridSize) - box.y;
+          }
+          updateSnapHints(snap);
+        } else {
+          updateSnapHints(null);
+        }
 
         const hasImages = dragState.elementIds.some((id) => {
           const el = elements.find((e) => e.id === id);
@@ -396,70 +764,75 @@ export function useCanvasInteractions({
     };
 
     const handleMouseUp = () => {
-      // Commit rotation and resize if rotating/resizing
+      // Commit rotation if rotating
       if (rotateStateRef.current && pendingRotationRef.current !== null) {
         const rs = rotateStateRef.current;
         const finalRotation = pendingRotationRef.current % 360;
-        const newElements = elements.map((el) => {
-          if (el.id === rs.elementId) {
-            const updates: Partial<CanvasElementData> = {
-              rotation: finalRotation,
-            };
-            if (pendingSizeRef.current) {
-              if (pendingSizeRef.current.width !== undefined) {
-                updates.width = pendingSizeRef.current.width;
-              }
-              if (pendingSizeRef.current.height !== undefined) {
-                updates.height = pendingSizeRef.current.height;
-              }
-              if (pendingSizeRef.current.fontSize !== undefined) {
-                updates.fontSize = pendingSizeRef.current.fontSize;
-              }
-            }
-            return { ...el, ...updates };
-          }
-          return el;
-        });
+        const newElements = elements.map((el) =>
+          el.id === rs.elementId ? { ...el, rotation: finalRotation } : el,
+        );
         updateElementsWithHistory(newElements);
-        updateStatus("Element transformed", "success");
-
-        const domEl = document.querySelector(
-          `[data-element-id="${rs.elementId}"]`,
-        ) as HTMLElement;
-        if (domEl) {
-          domEl.style.transition = "";
-          domEl.style.width = "";
-          domEl.style.height = "";
-          const contentDiv = domEl.querySelector(
-            "[contenteditable]",
-          ) as HTMLElement;
-          if (contentDiv) {
-            contentDiv.style.fontSize = "";
-          }
-          // Clear inner crop element overrides
-          const cropContainer = domEl.querySelector('[data-crop-container]') as HTMLElement;
-          const cropImg = cropContainer?.querySelector('img') as HTMLElement;
-          if (cropContainer) {
-            cropContainer.style.width = "";
-            cropContainer.style.height = "";
-          }
-          if (cropImg) {
-            cropImg.style.width = "";
-            cropImg.style.height = "";
-            cropImg.style.left = "";
-            cropImg.style.top = "";
-          }
-        }
+        updateStatus("Element rotated", "success");
 
         rotateStateRef.current = null;
         pendingRotationRef.current = null;
-        pendingSizeRef.current = null;
         return;
       }
       if (rotateStateRef.current) {
         rotateStateRef.current = null;
         pendingRotationRef.current = null;
-        pendingSizeRef.current = null;
+        return;
+      }
+
+      // Commit a multi-element rotate or scale as one history entry
+      if (groupTransformRef.current) {
+        const transformed = pendingGroupRef.current;
+        if (transformed) {
+          const newElements = elements.map((el) => {
+            const updated = transformed.get(el.id);
+            if (!updated) return el;
+            return updated.textSizing === "fit"
+              ? { ...updated, fontSize: fitTextboxFontSize(updated) }
+              : updated;
+          });
+          updateElementsWithHistory(newElements);
+          updateStatus(
+            groupTransformRef.current.mode === "rotate"
+              ? `${transformed.size} elements rotated`
+              : `${transformed.size} elements resized`,
+            "success",
+          );
+        }
+
+        groupTransformRef.current = null;
+        pendingGroupRef.current = null;
+        setSelectionFrame(null);
+        return;
+      }
+
+      // Commit resize if resizing
+      if (resizeStateRef.current) {
+        const rs = resizeStateRef.current;
+        const updates = pendingResizeRef.current;
+        if (updates) {
+          const newElements = elements.map((el) => {
+            if (el.id !== rs.elementId) return el;
+            const resized = { ...el, ...updates };
+            return el.textSizing === "fit"
+              ? { ...resized, fontSize: fitTextboxFontSize(resized) }
+              : resized;
+          });
+          updateElementsWithHistory(newElements);
+          updateStatus("Element resized", "success");
+        }
+
+        const domEl = document.querySelector(
+          `[data-element-id="${rs.elementId}"]`,
+        ) as HTMLElement;
+        if (domEl) clearResizePreview(domEl);
+
+        resizeStateRef.current = null;
+        pendingResizeRef.current = null;
         return;
       }
 
@@ -484,31 +857,33 @@ export function useCanvasInteractions({
         }
         draggedElementsRef.current = [];
 
-        // Move dragged elements to end (highest z-index) and update positions
+        // Update positions, keeping the stacking order
         const positions = dragPositionsRef.current;
-        const draggedIds = new Set(dragState.elementIds);
-        const nonDragged = elements.filter((el) => !draggedIds.has(el.id));
-        const dragged = elements.filter((el) => draggedIds.has(el.id));
-        const updatedDragged = dragged.map((el) => {
+        const newElements = elements.map((el) => {
           const pos = positions.get(el.id);
           return pos ? { ...el, x: pos.x, y: pos.y } : el;
         });
-
-        const newElements = [...nonDragged, ...updatedDragged];
         updateElementsWithHistory(newElements);
+        const count = dragState.elementIds.length;
         updateStatus(
-          dragState.elementIds.length === 1
-            ? "Element moved"
-            : `${dragState.elementIds.length} elements moved`,
+          `${count === 1 ? "Element" : `${count} elements`} ${
+            dragState.duplicate ? "duplicated" : "moved"
+          }`,
           "success",
         );
 
         setIsDragging(false);
         dragPositionsRef.current = null;
+      } else if (!isDragging && dragState?.keyCandidateId) {
+        const id = dragState.keyCandidateId;
+        setKeyElementId((prev) => (prev === id ? null : id));
       }
 
       // Always clear dragState on mouseup
       setDragState(null);
+      dragSnapRef.current = null;
+      dragAltReleasedRef.current = false;
+      updateSnapHints(null);
     };
 
     window.addEventListener("mousemove", handleMouseMove);
@@ -522,11 +897,13 @@ export function useCanvasInteractions({
     isDragging,
     dragState,
     elements,
+    setElements,
     marqueeState,
     getCanvasCoords,
     getMarqueeRect,
     elementIntersectsRect,
     zoom,
+    snapGridSize,
   ]);
 
   return {
@@ -536,6 +913,17 @@ export function useCanvasInteractions({
     handleElementMouseDown,
     handleCanvasMouseDown,
     handleCanvasClick,
+    handleCanvasDoubleClick,
+    handleCanvasContextMenu,
+    contextMenu,
+    closeContextMenu,
     handleRotateHandleMouseDown,
+    handleResizeHandleMouseDown,
+    handleGroupRotateHandleMouseDown,
+    handleGroupResizeHandleMouseDown,
+    selectionFrame,
+    snapHints,
+    keyElementId,
+    clearKeyElement,
   };
 }
@@ -1,5 +1,42 @@
 import { useEffect } from "react";
 import type { CanvasElementData } from "../types/canvas";
+import type { ZOrderAction } from "../utils/zOrder";
+import type { AlignAction, DistributeAxis } from "../utils/align";
+
+// Alt+letter alignment shortcuts, matched by key code since Alt changes the
+// character typed on some layouts
+const ALIGN_KEYS: Record<string, AlignAction> = {
+  KeyA: "left",
+  KeyH: "center",
+  KeyD: "right",
+  KeyW: "top",
+  KeyV: "middle",
+  KeyS: "bottom",
+};
+
+const ARROW_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+// Growth per press of + or -
+const SCALE_STEP = 1.1;
+
+// Keys that would otherwise type, crop or work a dialog don't go to
+// shortcuts that change the selection
+function isBusyWithKeyboard() {
+  const activeEl = document.activeElement as HTMLElement | null;
+  return (
+    !!activeEl?.isContentEditable ||
+    activeEl?.tagName === "INPUT" ||
+    activeEl?.tagName === "TEXTAREA" ||
+    !!document.querySelector(
+      '[data-crop-active], dialog[open], [role="dialog"]',
+    )
+  );
+}
 
 interface UseCanvasKeyboardParams {
   selectedElementIds: Set<string>;
@@ -10,6 +47,19 @@ interface UseCanvasKeyboardParams {
   handleUndo: () => void;
   handleRedo: () => void;
   updateElementsWithHistory: (newElements: CanvasElementData[]) => void;
+  handleCopySelectionAsImage: () => void;
+  handleGroupSelection: () => void;
+  handleUngroupSelection: () => void;
+  handleReorder: (action: ZOrderAction) => void;
+  // Selected element alignment lines the rest up with, if any
+  keyElementId: string | null;
+  handleAlign: (action: AlignAction, keyId: string | null) => void;
+  handleDistribute: (axis: DistributeAxis) => void;
+  handleNudge: (dx: number, dy: number) => void;
+  handleRotateSelection: (deltaRotation: number) => void;
+  handleFlipSelection: (axis: "horizontal" | "vertical") => void;
+  handleScaleSelection: (factor: number) => void;
+  handleDuplicate: () => void;
   updateStatus: (
     message: string,
     type?: "info" | "success" | "error" | "warning",
@@ -25,6 +75,18 @@ export function useCanvasKeyboard({
   handleUndo,
   handleRedo,
   updateElementsWithHistory,
+  handleCopySelectionAsImage,
+  handleGroupSelection,
+  handleUngroupSelection,
+  handleReorder,
+  keyElementId,
+  handleAlign,
+  handleDistribute,
+  handleNudge,
+  handleRotateSelection,
+  handleFlipSelection,
+  handleScaleSelection,
+  handleDuplicate,
   updateStatus,
 }: UseCanvasKeyboardParams) {
   useEffect(() => {
@@ -34,20 +96,29 @@ export function useCanvasKeyboard({
         (e.key === "Delete" || e.key === "Backspace") &&
         selectedElementIds.size > 0
       ) {
-        const activeEl = document.activeElement;
-        if (activeEl && (activeEl as HTMLElement).isContentEditable) return;
-        if (document.querySelector('[data-crop-active]')) return;
+        // Backspace in a text field edits the field, not the board
+        if (isBusyWithKeyboard()) return;
 
         e.preventDefault();
-        const newElements = elements.filter(
-          (el) => !selectedElementIds.has(el.id),
+        // Locked elements survive the delete and stay selected
+        const deletedIds = new Set(
+          elements
+            .filter((el) => selectedElementIds.has(el.id) && !el.locked)
+            .map((el) => el.id),
         );
+        if (deletedIds.size === 0) {
+          updateStatus("Locked elements can't be deleted", "warning");
+          return;
+        }
+        const newElements = elements.filter((el) => !deletedIds.has(el.id));
         updateElementsWithHistory(newElements);
-        setSelectedElementIds(new Set());
+        setSelectedElementIds(
+          new Set([...selectedElementIds].filter((id) => !deletedIds.has(id))),
+        );
         updateStatus(
-          selectedElementIds.size === 1
+          deletedIds.size === 1
             ? "Element deleted"
-            : `${selectedElementIds.size} elements deleted`,
+            : `${deletedIds.size} elements deleted`,
           "success",
         );
         return;
@@ -67,6 +138,142 @@ export function useCanvasKeyboard({
         return;
       }
 
+      // Ctrl+Shift+C or Cmd+Shift+C to copy the selection as an image
+      if (
+        (e.ctrlKey || e.metaKey) &&
+        e.shiftKey &&
+        e.key.toLowerCase() === "c" &&
+        selectedElementIds.size > 0
+      ) {
+        if (isBusyWithKeyboard()) return;
+
+        e.preventDefault();
+        handleCopySelectionAsImage();
+        return;
+      }
+
+      // Ctrl+G or Cmd+G to group, with Shift to ungroup
+      if (
+        (e.ctrlKey || e.metaKey) &&
+        e.key.toLowerCase() === "g" &&
+        selectedElementIds.size > 0
+      ) {
+        if (isBusyWithKeyboard()) return;
+
+        e.preventDefault();
+        if (e.shiftKey) {
+          handleUngroupSelection();
+        } else {
+          handleGroupSelection();
+        }
+        return;
+      }
+
+      // Ctrl+D or Cmd+D to duplicate (copy, cut and paste go through the
+      // clipboard events in useCanvasElements)
+      if (
+        (e.ctrlKey || e.metaKey) &&
+        !e.shiftKey &&
+        e.key.toLowerCase() === "d" &&
+        selectedElementIds.size > 0
+      ) {
+        if (isBusyWithKeyboard()) return;
+
+        e.preventDefault();
+        handleDuplicate();
+        return;
+      }
+
+      // Ctrl/Cmd+] and Ctrl/Cmd+[ to bring forward and send backward, with
+      // Shift to go all the way to the front or back. Matched by key code
+      // since Shift changes the bracket characters.
+      if (
+        (e.ctrlKey || e.metaKey) &&
+        (e.code === "BracketRight" || e.code === "BracketLeft") &&
+        selectedElementIds.size > 0
+      ) {
+        if (isBusyWithKeyboard()) return;
+
+        e.preventDefault();
+        if (e.code === "BracketRight") {
+          handleReorder(e.shiftKey ? "front" : "forward");
+        } else {
+          handleReorder(e.shiftKey ? "back" : "backward");
+        }
+        return;
+      }
+
+      // Alt+A/H/D and Alt+W/V/S align lefts, centers and rights or tops,
+      // middles and bottoms; Alt+Shift+H/V distribute
+      if (
+        e.altKey &&
+        !e.ctrlKey &&
+        !e.metaKey &&
+        ALIGN_KEYS[e.code] &&
+        selectedElementIds.size > 1
+      ) {
+        if (isBusyWithKeyboard()) return;
+
+        e.preventDefault();
+        if (e.shiftKey && e.code === "KeyH") {
+          handleDistribute("horizontal");
+        } else if (e.shiftKey && e.code === "KeyV") {
+          handleDistribute("vertical");
+        } else if (!e.shiftKey) {
+          handleAlign(ALIGN_KEYS[e.code], keyElementId);
+        }
+        return;
+      }
+
+      // Shortcuts below act on the selection and take no Ctrl/Cmd/Alt
+      if (
+        selectedElementIds.size > 0 &&
+        !e.ctrlKey &&
+        !e.metaKey &&
+        !e.altKey &&
+        !isBusyWithKeyboard()
+      ) {
+        // Arrow keys nudge by 1px, or 10px with Shift
+        const direction = ARROW_DIRECTIONS[e.key];
+        if (direction) {
+          e.preventDefault();
+          const step = e.shiftKey ? 10 : 1;
+          handleNudge(direction.x * step, direction.y * step);
+          return;
+        }
+
+        // R rotates a quarter turn clockwise, Shift+R counterclockwise
+        if (e.key.toLowerCase() === "r") {
+          e.preventDefault();
+          handleRotateSelection(e.shiftKey ? -90 : 90);
+          return;
+        }
+
+        // Shift+H and Shift+V flip horizontally and vertically
+        if (e.shiftKey && e.key.toLowerCase() === "h") {
+          e.preventDefault();
+          handleFlipSelection("horizontal");
+          return;
+        }
+        if (e.shiftKey && e.key.toLowerCase() === "v") {
+          e.preventDefault();
+          handleFlipSelection("vertical");
+          return;
+        }
+
+        // + and - scale up and down around the selection's center
+        if (e.key === "+" || e.key === "=") {
+          e.preventDefault();
+          handleScaleSelection(SCALE_STEP);
+          return;
+        }
+        if (e.key === "-") {
+          e.preventDefault();
+          handleScaleSelection(1 / SCALE_STEP);
+          return;
+        }
+      }
+
       // Ctrl+Y or Cmd+Y for redo
       if ((e.ctrlKey || e.metaKey) && e.key === "y") {
         e.preventDefault();
@@ -77,5 +284,5 @@ export function useCanvasKeyboard({
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [selectedElementIds, elements, historyIndex, history]);
+  }, [selectedElementIds, elements, historyIndex, history, keyElementId]);
 }
@@ -1,58 +1,250 @@
-import { useEffect, useCallback } from 'react';
-import { db } from '../db/index';
+import { useEffect, useCallback, useRef, useState } from 'react';
+import { db, type StoredCanvasElement } from '../db/index';
+import { touchBoard } from '../db/boards';
+import { ELEMENT_SCHEMA_VERSION, readBoardElements, upgradeElements } from '../db/schema';
 import type { CanvasElementData } from '../components/Canvas/CanvasElement';
 
+// How many undo/redo states are kept across reloads
+const MAX_PERSISTED_HISTORY = 50;
+// ...of which at most this many are redo states, so the rest of the window
+// goes to the undo states before the current one
+const MAX_PERSISTED_REDO = 10;
+
+export interface LoadedHistory {
+  entries: CanvasElementData[][];
+  index: number;
+}
+
+interface SavedElement {
+  element: CanvasElementData;
+  order: number;
+  storedAt: number;
+}
+
+// Message posted to other tabs with the same board open after each save
+interface BoardSavedMessage {
+  type: 'elements-saved';
+  boardId: string;
+}
+
 export function useDexieElements(
-  _elements: CanvasElementData[],
-  onLoad: (elements: CanvasElementData[]) => void
+  boardId: string,
+  elements: CanvasElementData[],
+  onLoad: (elements: CanvasElementData[], history?: LoadedHistory) => void,
+  onRemoteChange?: (elements: CanvasElementData[], conflictCount: number) => void
 ) {
-  // Load elements from Dexie on mount
+  const [isLoaded, setIsLoaded] = useState(false);
+  // What was last written to (or read from) Dexie, by element id, so saves
+  // only touch elements that were added, changed or moved in the stacking
+  // order, and so changes made by other tabs can be told apart from ours
+  const savedRef = useRef<Map<string, SavedElement>>(new Map());
+  // One object URL per blob key, shared by the current state, every history
+  // entry and elements synced from other tabs
+  const urlsRef = useRef<Map<string, string | undefined>>(new Map());
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const elementsRef = useRef(elements);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+
+  useEffect(() => {
+    elementsRef.current = elements;
+    onRemoteChangeRef.current = onRemoteChange;
+  }, [elements, onRemoteChange]);
+
+  const withUrl = useCallback(async <T extends CanvasElementData>(el: T): Promise<T> => {
+    if (el.type !== 'image' || !el.id) return el;
+    // Use blobKey if present so we load the correct version of the
+    // blob (e.g. after background removal stores under a new key).
+    const lookupKey = el.blobKey || el.id;
+    const urls = urlsRef.current;
+    if (!urls.has(lookupKey)) {
+      const imageBlob = await db.imageBlobs.get(lookupKey);
+      urls.set(
+        lookupKey,
+        imageBlob ? URL.createObjectURL(imageBlob.blob) : undefined,
+      );
+    }
+    const src = urls.get(lookupKey);
+    return src ? { ...el, src } : el;
+  }, []);
+
+  // Load the board's elements and undo history from Dexie on mount
   useEffect(() => {
     const loadElements = async () => {
       try {
-        const storedElements = await db.elements.toArray();
-        if (storedElements.length > 0) {
-          // Load image blobs and create object URLs
-          const elementsWithUrls = await Promise.all(
-            storedElements.map(async (el) => {
-              if (el.type === 'image' && el.id) {
-                // Use blobKey if present so we load the correct version of the
-                // blob (e.g. after background removal stores under a new key).
-                const lookupKey = el.blobKey || el.id;
-                const imageBlob = await db.imageBlobs.get(lookupKey);
-                if (imageBlob) {
-                  return {
-                    ...el,
-                    src: URL.createObjectURL(imageBlob.blob),
-                  };
-                }
-              }
-              return el;
-            })
+        // Older records are migrated and malformed ones quarantined here, so
+        // everything handed to onLoad is safe to render
+        const storedElements = await readBoardElements(boardId);
+        const storedHistory = await db.histories.get(boardId);
+
+        if (storedElements.length > 0 || storedHistory) {
+          const elementsWithUrls = await Promise.all(storedElements.map(withUrl));
+          savedRef.current = new Map(
+            elementsWithUrls.map((element, order) => [
+              element.id,
+              { element, order, storedAt: element.storedAt ?? 0 },
+            ])
           );
-          onLoad(elementsWithUrls);
+          const history = storedHistory && {
+            entries: await Promise.all(
+              storedHistory.entries.map((entry) =>
+                Promise.all(
+                  upgradeElements(entry, storedHistory.schemaVersion ?? 0).map(withUrl)
+                )
+              )
+            ),
+            index: storedHistory.index,
+          };
+          onLoad(elementsWithUrls, history);
         }
       } catch (error) {
         console.error('Failed to load elements from Dexie:', error);
+      } finally {
+        setIsLoaded(true);
       }
     };
 
     loadElements();
-  }, [onLoad]);
+  }, [boardId, onLoad, withUrl]);
+
+  // Merge what another tab saved into the local state, last writer wins per
+  // element id. Unsaved local edits to an element the other tab also wrote
+  // are conflicts: the other tab's version is already stored, so it wins.
+  const syncFromStorage = useCallback(async () => {
+    const stored = await readBoardElements(boardId);
+    const saved = savedRef.current;
+    const local = elementsRef.current;
+    const localById = new Map(local.map((el) => [el.id, el]));
+    const storedIds = new Set(stored.map((el) => el.id));
+
+    const merged: CanvasElementData[] = [];
+    const nextSaved = new Map<string, SavedElement>();
+    let changeCount = 0;
+    let conflictCount = 0;
+
+    for (const record of stored) {
+      const prev = saved.get(record.id);
+      const localEl = localById.get(record.id);
+      const storedAt = record.storedAt ?? 0;
+
+      if (prev && storedAt <= prev.storedAt) {
+        // Not touched by another tab: keep whatever this tab has, including
+        // a pending local deletion
+        if (localEl) merged.push(localEl);
+        nextSaved.set(record.id, prev);
+        continue;
+      }
+
+      changeCount++;
+      if (prev && localEl !== prev.element) conflictCount++;
+      const element = await withUrl(record);
+      merged.push(element);
+      nextSaved.set(record.id, {
+        element,
+        order: merged.length - 1,
+        storedAt,
+      });
+    }
+
+    for (const [id, prev] of saved) {
+      if (storedIds.has(id)) continue;
+      // Deleted by another tab
+      changeCount++;
+      if (localById.get(id) !== prev.element) conflictCount++;
+    }
 
-  // Save elements to Dexie whenever they change
+    // Elements added here that haven't been saved yet stay on top
+    for (const el of local) {
+      if (!storedIds.has(el.id) && !saved.has(el.id)) merged.push(el);
+    }
+
+    if (changeCount === 0) return;
+
+    savedRef.current = nextSaved;
+    onRemoteChangeRef.current?.(merged, conflictCount);
+  }, [boardId, withUrl]);
+
+  // Listen for saves from other tabs that have this board open
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+
+    const channel = new BroadcastChannel(`gloop-board-${boardId}`);
+    channelRef.current = channel;
+    channel.onmessage = (e: MessageEvent<BoardSavedMessage>) => {
+      if (e.data?.type !== 'elements-saved' || e.data.boardId !== boardId) return;
+      syncFromStorage().catch((error) =>
+        console.error('Failed to sync elements from another tab:', error)
+      );
+    };
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [boardId, syncFromStorage]);
+
+  // Save elements to Dexie whenever they change. Only the difference from
+  // the last save is written, in one transaction so a closed tab can never
+  // leave the board half-written.
   const saveElements = useCallback(async (elementsToSave: CanvasElementData[]) => {
+    const saved = savedRef.current;
+    const storedAt = Date.now();
+    const nextSaved = new Map<string, SavedElement>();
+    const changed: StoredCanvasElement[] = [];
+
+    elementsToSave.forEach((el, order) => {
+      const prev = saved.get(el.id);
+      if (prev && prev.element === el && prev.order === order) {
+        nextSaved.set(el.id, prev);
+      } else {
+        changed.push({
+          ...el,
+          boardId,
+          order,
+          storedAt,
+          schemaVersion: ELEMENT_SCHEMA_VERSION,
+        });
+        nextSaved.set(el.id, { element: el, order, storedAt });
+      }
+    });
+    const removed = [...saved.keys()].filter((id) => !nextSaved.has(id));
+
+    if (changed.length === 0 && removed.length === 0) return;
+
     try {
-      await db.elements.clear();
-      const elementsWithTimestamp = elementsToSave.map((el) => ({
-        ...el,
-        storedAt: Date.now(),
-      }));
-      await db.elements.bulkAdd(elementsWithTimestamp);
+      await db.transaction('rw', db.elements, db.boards, async () => {
+        await db.elements.bulkPut(changed);
+        await db.elements.bulkDelete(removed);
+        await touchBoard(boardId);
+      });
+      savedRef.current = nextSaved;
+      const message: BoardSavedMessage = { type: 'elements-saved', boardId };
+      channelRef.current?.postMessage(message);
     } catch (error) {
       console.error('Failed to save elements to Dexie:', error);
     }
-  }, []);
+  }, [boardId]);
+
+  // Save a bounded window of the undo/redo stack that always contains the
+  // current position, filled with as many undo states as fit
+  const saveHistory = useCallback(async (history: CanvasElementData[][], index: number) => {
+    const end = Math.min(history.length, index + 1 + MAX_PERSISTED_REDO);
+    const start = Math.max(0, end - MAX_PERSISTED_HISTORY);
+    const entries = history
+      .slice(start, end)
+      .map((entry) => entry.map((el) => (el.src ? { ...el, src: undefined } : el)));
+
+    try {
+      await db.histories.put({
+        boardId,
+        entries,
+        index: index - start,
+        storedAt: Date.now(),
+        schemaVersion: ELEMENT_SCHEMA_VERSION,
+      });
+    } catch (error) {
+      console.error('Failed to save history to Dexie:', error);
+    }
+  }, [boardId]);
 
-  return { saveElements };
+  return { saveElements, saveHistory, isLoaded };
 }
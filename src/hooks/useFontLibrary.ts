@@ -0,0 +1,75 @@
+import { useEffect, useMemo } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { db } from "../db";
+import { addFont, deleteFont, registerFont } from "../db/fonts";
+import type { FontFamily } from "../components/Canvas/CanvasElement";
+import {
+  BUILTIN_FONT_OPTIONS,
+  customFontFamily,
+  type FontOption,
+} from "../utils/textLayout";
+
+interface UseFontLibraryParams {
+  updateStatus: (
+    message: string,
+    type?: "info" | "success" | "error" | "warning",
+  ) => void;
+}
+
+// Uploaded fonts, registered with the FontFace API as soon as they are in
+// the library (including fonts added from another tab)
+export function useFontLibrary({ updateStatus }: UseFontLibraryParams) {
+  const customFonts = useLiveQuery(() => db.fonts.orderBy("id").toArray());
+
+  useEffect(() => {
+    customFonts?.forEach((font) =>
+      registerFont(font).catch((error) =>
+        console.error(`Failed to register font ${font.name}:`, error),
+      ),
+    );
+  }, [customFonts]);
+
+  const fontOptions = useMemo<FontOption[]>(
+    () => [
+      ...BUILTIN_FONT_OPTIONS,
+      ...(customFonts ?? []).map((font) => ({
+        value: customFontFamily(font.id),
+        label: font.name,
+      })),
+    ],
+    [customFonts],
+  );
+
+  // Returns the new font's `fontFamily` value, or null if the upload failed
+  const handleUploadFont = async (file: File): Promise<FontFamily | null> => {
+    try {
+      const font = await addFont(file);
+      updateStatus(`Added font ${font.name}`, "success");
+      return customFontFamily(font.id);
+    } catch (error) {
+      console.error("Failed to add font:", error);
+      updateStatus(
+        error instanceof Error ? error.message : "Failed to add font",
+        "error",
+      );
+      return null;
+    }
+  };
+
+  const handleDeleteFont = async (id: string) => {
+    try {
+      await deleteFont(id);
+      updateStatus("Font removed", "success");
+    } catch (error) {
+      console.error("Failed to remove font:", error);
+      updateStatus("Failed to remove font", "error");
+    }
+  };
+
+  return {
+    customFonts: customFonts ?? [],
+    fontOptions,
+    handleUploadFont,
+    handleDeleteFont,
+  };
+}
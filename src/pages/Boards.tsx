@@ -0,0 +1,238 @@
+import { useRef, useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Plus, Pencil, Copy, Trash2, Download, Upload } from "lucide-react";
+import gloopLogo from "../assets/gloop.svg";
+import { db, type Board } from "../db";
+import {
+  createBoard,
+  deleteBoard,
+  duplicateBoard,
+  renameBoard,
+} from "../db/boards";
+import {
+  ARCHIVE_EXTENSION,
+  exportBoardArchive,
+  importBoardArchive,
+} from "../db/archive";
+import { downloadBlob } from "../utils/exportCanvas";
+
+interface BoardCardProps {
+  board: Board;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onExport: (board: Board) => void;
+  onDelete: (board: Board) => void;
+}
+
+function BoardCard({
+  board,
+  onRename,
+  onDuplicate,
+  onExport,
+  onDelete,
+}: BoardCardProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(board.name);
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== board.name) {
+      onRename(board.id, trimmed);
+    } else {
+      setName(board.name);
+    }
+  };
+
+  return (
+    <div className="group bg-white rounded-2xl shadow-md hover:shadow-xl border border-gray-200 overflow-hidden transition-shadow">
+      <Link to={`/board/${board.id}`} className="block aspect-video bg-gray-50">
+        {board.thumbnail ? (
+          <img
+            src={board.thumbnail}
+            alt=""
+            className="w-full h-full object-contain"
+            draggable={false}
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-sm text-gray-400">
+            Empty board
+          </div>
+        )}
+      </Link>
+
+      <div className="flex items-center gap-1 px-3 py-2">
+        <div className="flex-1 min-w-0">
+          {isRenaming ? (
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitRename();
+                if (e.key === "Escape") {
+                  setName(board.name);
+                  setIsRenaming(false);
+                }
+              }}
+              className="w-full px-1 py-0.5 border border-gray-300 rounded text-sm text-gray-800"
+              aria-label="Board name"
+            />
+          ) : (
+            <p className="truncate text-sm font-semibold text-gray-800">
+              {board.name}
+            </p>
+          )}
+          <p className="text-xs text-gray-400">
+            Edited {new Date(board.updatedAt).toLocaleString()}
+          </p>
+        </div>
+
+        <button
+          onClick={() => setIsRenaming(true)}
+          className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500 transition-colors"
+          title="Rename board"
+          aria-label="Rename board"
+        >
+          <Pencil size={16} />
+        </button>
+        <button
+          onClick={() => onDuplicate(board.id)}
+          className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500 transition-colors"
+          title="Duplicate board"
+          aria-label="Duplicate board"
+        >
+          <Copy size={16} />
+        </button>
+        <button
+          onClick={() => onExport(board)}
+          className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500 transition-colors"
+          title={`Export board as ${ARCHIVE_EXTENSION} file`}
+          aria-label="Export board"
+        >
+          <Download size={16} />
+        </button>
+        <button
+          onClick={() => onDelete(board)}
+          className="p-1.5 rounded-lg hover:bg-red-50 text-red-500 transition-colors"
+          title="Delete board"
+          aria-label="Delete board"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function Boards() {
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const boards = useLiveQuery(() =>
+    db.boards.orderBy("updatedAt").reverse().toArray(),
+  );
+
+  const handleCreate = async () => {
+    const board = await createBoard();
+    navigate(`/board/${board.id}`);
+  };
+
+  const handleRename = (id: string, name: string) => {
+    renameBoard(id, name).catch((error) =>
+      console.error("Failed to rename board:", error),
+    );
+  };
+
+  const handleDuplicate = (id: string) => {
+    duplicateBoard(id).catch((error) =>
+      console.error("Failed to duplicate board:", error),
+    );
+  };
+
+  const handleExport = async (board: Board) => {
+    try {
+      const archive = await exportBoardArchive(board.id);
+      downloadBlob(archive, `${board.name}${ARCHIVE_EXTENSION}`);
+    } catch (error) {
+      console.error("Failed to export board:", error);
+      window.alert("Failed to export board");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const board = await importBoardArchive(file);
+      navigate(`/board/${board.id}`);
+    } catch (error) {
+      console.error("Failed to import board:", error);
+      window.alert(
+        `Failed to import board: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  };
+
+  const handleDelete = (board: Board) => {
+    if (
+      window.confirm(
+        `Delete "${board.name}"? Its elements and images will be removed.`,
+      )
+    ) {
+      deleteBoard(board.id).catch((error) =>
+        console.error("Failed to delete board:", error),
+      );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="flex items-center gap-4 px-8 py-6">
+        <img src={gloopLogo} className="h-10" />
+        <h1 className="text-xl font-semibold text-gray-800 flex-1">Boards</h1>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ARCHIVE_EXTENSION}
+          onChange={handleImport}
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-xl hover:bg-gray-300 transition-colors"
+        >
+          <Upload size={18} />
+          Import
+        </button>
+        <button
+          onClick={handleCreate}
+          className="flex items-center gap-2 px-4 py-2 bg-pink-500 text-white rounded-xl hover:bg-pink-600 transition-colors"
+        >
+          <Plus size={18} />
+          New board
+        </button>
+      </header>
+
+      <main className="grid gap-6 px-8 pb-8 grid-cols-[repeat(auto-fill,minmax(240px,1fr))]">
+        {boards?.map((board) => (
+          <BoardCard
+            key={board.id}
+            board={board}
+            onRename={handleRename}
+            onDuplicate={handleDuplicate}
+            onExport={handleExport}
+            onDelete={handleDelete}
+          />
+        ))}
+
+        {boards?.length === 0 && (
+          <p className="text-gray-400">No boards yet. Create one to start.</p>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 import { useState, useRef, useCallback } from "react";
+import { useLoaderData } from "react-router";
 import Toolbar from "../components/Toolbar/Toolbar";
 import Canvas from "../components/Canvas/Canvas";
 import ZoomControls from "../components/Canvas/ZoomControls";
 import Settings from "../components/Settings/Settings";
+import ExportDialog from "../components/Export/ExportDialog";
+import ContextMenu from "../components/Canvas/ContextMenu";
+import LayersPanel from "../components/Layers/LayersPanel";
+import AlignControls from "../components/Canvas/AlignControls";
 import { useDexieElements } from "../hooks/useDexieElements";
 import { useCanvasHistory } from "../hooks/useCanvasHistory";
 import { useCanvasElements } from "../hooks/useCanvasElements";
@@ -10,13 +15,26 @@ import { useCanvasInteractions } from "../hooks/useCanvasInteractions";
 import { useCanvasKeyboard } from "../hooks/useCanvasKeyboard";
 import { useCanvasScroll } from "../hooks/useCanvasScroll";
 import { useCanvasAutoSave } from "../hooks/useCanvasAutoSave";
-import type { StatusState } from "../types/canvas";
+import { useCanvasExport } from "../hooks/useCanvasExport";
+import { useBoardThumbnail } from "../hooks/useBoardThumbnail";
+import { useFontLibrary } from "../hooks/useFontLibrary";
+import { useBoardGrid } from "../hooks/useBoardGrid";
+import { countAlignableItems } from "../utils/align";
+import type { CanvasElementData, StatusState } from "../types/canvas";
+import type { Board } from "../db";
 
 export type { MarqueeState } from "../types/canvas";
 
 export default function Home() {
+  const board = useLoaderData() as Board;
+  // Key by board so switching boards starts from fresh state and history
+  return <BoardCanvas key={board.id} boardId={board.id} />;
+}
+
+function BoardCanvas({ boardId }: { boardId: string }) {
   const canvasRef = useRef<HTMLDivElement>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const [zoom, setZoom] = useState(1);
   const [, setStatusState] = useState<StatusState>({
     message: "Ready",
@@ -47,9 +65,42 @@ export default function Home() {
   } = useCanvasHistory();
 
   // Persistence (IndexedDB)
-  const { saveElements } = useDexieElements(elements, handleLoadElements);
+  // Edits saved by another tab with this board open. They become an undo
+  // step of their own, so undo goes back through them rather than past
+  // them. They're already stored, so auto-save has nothing to write.
+  const handleRemoteChange = (
+    remoteElements: CanvasElementData[],
+    conflictCount: number,
+  ) => {
+    updateElementsWithHistory(remoteElements);
+    const remoteIds = new Set(remoteElements.map((el) => el.id));
+    setSelectedElementIds(
+      (prev) => new Set([...prev].filter((id) => remoteIds.has(id))),
+    );
+    if (conflictCount > 0) {
+      updateStatus(
+        conflictCount === 1
+          ? "An element you were editing was changed in another tab"
+          : `${conflictCount} elements you were editing were changed in another tab`,
+        "warning",
+      );
+    } else {
+      updateStatus("Synced changes from another tab", "info");
+    }
+  };
+
+  const { saveElements, saveHistory, isLoaded } = useDexieElements(
+    boardId,
+    elements,
+    handleLoadElements,
+    handleRemoteChange,
+  );
+
+  // Per-board grid overlay and snapping
+  const { grid, handleSetGrid } = useBoardGrid({ boardId, updateStatus });
+  const snapGridSize = grid.snap ? grid.size : null;
 
-  // Mouse interactions (drag, marquee, rotate)
+  // Mouse interactions (drag, marquee, rotate, resize)
   const {
     isDragging,
     marqueeState,
@@ -57,14 +108,27 @@ export default function Home() {
     handleElementMouseDown,
     handleCanvasMouseDown,
     handleCanvasClick,
+    handleCanvasDoubleClick,
+    handleCanvasContextMenu,
+    contextMenu,
+    closeContextMenu,
     handleRotateHandleMouseDown,
+    handleResizeHandleMouseDown,
+    handleGroupRotateHandleMouseDown,
+    handleGroupResizeHandleMouseDown,
+    selectionFrame,
+    snapHints,
+    keyElementId,
+    clearKeyElement,
   } = useCanvasInteractions({
     elements,
+    setElements,
     selectedElementIds,
     setSelectedElementIds,
     updateElementsWithHistory,
     canvasRef,
     zoom,
+    snapGridSize,
     updateStatus,
   });
 
@@ -77,19 +141,36 @@ export default function Home() {
     handleElementFocus,
     handleElementBlur,
     handleElementSelect,
-    handleToggleFont,
-    handleToggleItalic,
-    handleToggleTextColor,
-    handleRotate,
+    handleSetTextStyle,
+    handlePreviewTextStyle,
+    handleSetTextSizing,
+    handleSetTextRuns,
+    handleGroupSelection,
+    handleUngroupSelection,
+    handleReorder,
+    handleAlign,
+    handleDistribute,
+    handleNudge,
+    handleRotateSelection,
+    handleFlipSelection,
+    handleScaleSelection,
+    handleDuplicate,
+    handleLayerSelect,
+    handleMoveLayer,
+    handleRenameElement,
+    handleToggleHidden,
+    handleToggleLocked,
+    handleSetSelectionLocked,
     handleMeasure,
     handleCleanupUnreferencedImages,
     handleRemoveBackground,
     handleCropImage,
     bgRemovalProcessingIds,
     handleSetShapeFillColor,
-    handleStartShapeEyedropper,
+    handleStartEyedropper,
     eyedropperTargetId,
   } = useCanvasElements({
+    boardId,
     elements,
     setElements,
     selectedElementIds,
@@ -98,11 +179,24 @@ export default function Home() {
     history,
     canvasRef,
     cursorPosition,
+    snapGridSize,
     zoom,
     updateStatus,
   });
 
-  // Keyboard shortcuts (delete, undo, redo)
+  // Image export + copy to clipboard
+  const { handleExport, handleCopySelectionAsImage } = useCanvasExport({
+    elements,
+    selectedElementIds,
+    updateStatus,
+  });
+
+  // Uploaded fonts
+  const { customFonts, fontOptions, handleUploadFont, handleDeleteFont } =
+    useFontLibrary({ updateStatus });
+
+  // Keyboard shortcuts (delete, undo, redo, copy as image, group, z-order,
+  // align, nudge, rotate, flip, scale, duplicate)
   useCanvasKeyboard({
     selectedElementIds,
     setSelectedElementIds,
@@ -112,6 +206,18 @@ export default function Home() {
     handleUndo,
     handleRedo,
     updateElementsWithHistory,
+    handleCopySelectionAsImage,
+    handleGroupSelection,
+    handleUngroupSelection,
+    handleReorder,
+    keyElementId,
+    handleAlign,
+    handleDistribute,
+    handleNudge,
+    handleRotateSelection,
+    handleFlipSelection,
+    handleScaleSelection,
+    handleDuplicate,
     updateStatus,
   });
 
@@ -119,7 +225,17 @@ export default function Home() {
   useCanvasScroll(canvasRef);
 
   // Auto-save to IndexedDB
-  useCanvasAutoSave({ elements, saveElements });
+  useCanvasAutoSave({
+    elements,
+    history,
+    historyIndex,
+    isLoaded,
+    saveElements,
+    saveHistory,
+  });
+
+  // Gallery thumbnail
+  useBoardThumbnail({ boardId, elements, isLoaded });
 
   const applyZoom = useCallback((computeNext: (prev: number) => number) => {
     const canvas = canvasRef.current;
@@ -159,6 +275,14 @@ export default function Home() {
   );
 
 
+  const hasLockedSelection = elements.some(
+    (el) => el.locked && selectedElementIds.has(el.id),
+  );
+  const alignableCount =
+    selectedElementIds.size > 1
+      ? countAlignableItems(elements, selectedElementIds)
+      : 0;
+
   return (
     <>
       <Toolbar
@@ -170,15 +294,41 @@ export default function Home() {
         canUndo={canUndo}
         canRedo={canRedo}
         onOpenSettings={() => setSettingsOpen(true)}
+        onOpenExport={() => setExportOpen(true)}
+        onCopyAsImage={handleCopySelectionAsImage}
+        hasSelection={selectedElementIds.size > 0}
+        grid={grid}
+        onSetGrid={handleSetGrid}
       />
 
       {settingsOpen && (
         <Settings
           onClose={() => setSettingsOpen(false)}
           onCleanupImages={handleCleanupUnreferencedImages}
+          customFonts={customFonts}
+          onUploadFont={handleUploadFont}
+          onDeleteFont={handleDeleteFont}
         />
       )}
 
+      {exportOpen && (
+        <ExportDialog
+          onClose={() => setExportOpen(false)}
+          onExport={handleExport}
+          hasSelection={selectedElementIds.size > 0}
+        />
+      )}
+
+      <LayersPanel
+        elements={elements}
+        selectedElementIds={selectedElementIds}
+        onSelect={handleLayerSelect}
+        onMoveLayer={handleMoveLayer}
+        onRename={handleRenameElement}
+        onToggleHidden={handleToggleHidden}
+        onToggleLocked={handleToggleLocked}
+      />
+
       <Canvas
         ref={canvasRef}
         elements={elements}
@@ -188,14 +338,25 @@ export default function Home() {
         onElementBlur={handleElementBlur}
         onElementSelect={handleElementSelect}
         onCanvasClick={handleCanvasClick}
+        onCanvasDoubleClick={handleCanvasDoubleClick}
+        onCanvasContextMenu={handleCanvasContextMenu}
         onCanvasMouseDown={handleCanvasMouseDown}
         onElementMouseDown={handleElementMouseDown}
         onRotateHandleMouseDown={handleRotateHandleMouseDown}
+        onResizeHandleMouseDown={handleResizeHandleMouseDown}
+        onGroupRotateHandleMouseDown={handleGroupRotateHandleMouseDown}
+        onGroupResizeHandleMouseDown={handleGroupResizeHandleMouseDown}
+        selectionFrame={selectionFrame}
+        snapHints={snapHints}
+        keyElementId={keyElementId}
+        grid={grid}
         onMeasure={handleMeasure}
-        onRotate={handleRotate}
-        onToggleFont={handleToggleFont}
-        onToggleItalic={handleToggleItalic}
-        onToggleTextColor={handleToggleTextColor}
+        onSetTextStyle={handleSetTextStyle}
+        onPreviewTextStyle={handlePreviewTextStyle}
+        onSetTextSizing={handleSetTextSizing}
+        onSetTextRuns={handleSetTextRuns}
+        fontOptions={fontOptions}
+        onUploadFont={handleUploadFont}
         onRemoveBackground={handleRemoveBackground}
         onCropImage={handleCropImage}
         bgRemovalProcessingIds={bgRemovalProcessingIds}
@@ -203,10 +364,61 @@ export default function Home() {
         marqueeState={marqueeState}
         zoom={zoom}
         onSetShapeFillColor={handleSetShapeFillColor}
-        onStartShapeEyedropper={handleStartShapeEyedropper}
+        onStartEyedropper={handleStartEyedropper}
         eyedropperTargetId={eyedropperTargetId}
       />
 
+      {contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          onClose={closeContextMenu}
+          items={[
+            {
+              label: "Bring to front",
+              shortcut: "Ctrl+Shift+]",
+              onSelect: () => handleReorder("front"),
+            },
+            {
+              label: "Bring forward",
+              shortcut: "Ctrl+]",
+              onSelect: () => handleReorder("forward"),
+            },
+            {
+              label: "Send backward",
+              shortcut: "Ctrl+[",
+              onSelect: () => handleReorder("backward"),
+            },
+            {
+              label: "Send to back",
+              shortcut: "Ctrl+Shift+[",
+              onSelect: () => handleReorder("back"),
+            },
+            hasLockedSelection
+              ? {
+                  label: "Unlock",
+                  onSelect: () => handleSetSelectionLocked(false),
+                }
+              : {
+                  label: "Lock",
+                  onSelect: () => handleSetSelectionLocked(true),
+                },
+          ]}
+        />
+      )}
+
+      {alignableCount > 1 && (
+        <AlignControls
+          onAlign={(action) => handleAlign(action, keyElementId)}
+          onDistribute={handleDistribute}
+          canDistribute={alignableCount > 2}
+          hasKeyElement={
+            keyElementId !== null && selectedElementIds.has(keyElementId)
+          }
+          onClearKeyElement={clearKeyElement}
+        />
+      )}
+
       <ZoomControls
         zoom={zoom}
         onZoomIn={() => handleZoomSnap("in")}
@@ -1,4 +1,5 @@
 import type { CanvasElementData } from "../components/Canvas/CanvasElement";
+import type { Box } from "../utils/geometry";
 
 export type { CanvasElementData };
 
@@ -12,6 +13,12 @@ export interface DragState {
   startX: number;
   startY: number;
   elementStarts: Map<string, { x: number; y: number }>;
+  // Element that becomes the key object if this turns out to be a click
+  // on part of a larger selection rather than a drag
+  keyCandidateId?: string;
+  // Alt was held at mousedown: leave copies of the elements behind once
+  // they start moving
+  duplicate?: boolean;
 }
 
 export interface MarqueeState {
@@ -26,9 +33,47 @@ export interface RotateState {
   centerX: number;
   centerY: number;
   startAngle: number;
-  startDistance: number;
   elementStartRotation: number;
+}
+
+// Edge or corner of an element's box that a resize handle drags
+export type ResizeHandle = "n" | "s" | "e" | "w" | "nw" | "ne" | "sw" | "se";
+
+export interface ResizeState {
+  elementId: string;
+  handle: ResizeHandle;
+  // Pointer position when the drag started, in canvas coordinates
+  startX: number;
+  startY: number;
+  // Unrotated box of the element when the drag started
+  startBox: Box;
+  rotation: number;
   elementStartWidth?: number;
-  elementStartHeight?: number;
   elementStartFontSize?: number;
 }
+
+// Rotating or scaling a multi-element selection as a whole
+export interface GroupTransformState {
+  mode: "rotate" | "resize";
+  // Corner being dragged when resizing
+  handle?: ResizeHandle;
+  // Pointer position when the drag started, in canvas coordinates
+  startX: number;
+  startY: number;
+  // Bounding box of the selection when the drag started
+  startBox: Box;
+  startElements: CanvasElementData[];
+}
+
+// Outline drawn around a multi-element selection, turned with the
+// selection while it is being rotated
+export interface SelectionFrame {
+  box: Box;
+  rotation: number;
+}
+
+// Where an open context menu sits, in viewport coordinates
+export interface ContextMenuState {
+  x: number;
+  y: number;
+}
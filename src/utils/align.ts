@@ -0,0 +1,167 @@
+import type { CanvasElementData } from "../types/canvas";
+import { getElementBounds, unionBoxes, type Box } from "./geometry";
+import { getSelectedItems } from "./groups";
+
+export type AlignAction =
+  "left" | "center" | "right" | "top" | "middle" | "bottom";
+
+export type DistributeAxis = "horizontal" | "vertical";
+
+// Groups align and distribute as a whole, using the bounds of their
+// rotated members. Hidden members don't count.
+interface Item {
+  members: CanvasElementData[];
+  bounds: Box;
+}
+
+const EPSILON = 1e-6;
+
+function getItems(elements: CanvasElementData[], selectedIds: Set<string>) {
+  const items: Item[] = [];
+  for (const group of getSelectedItems(elements, selectedIds)) {
+    const members = group.filter((el) => !el.hidden);
+    const bounds = unionBoxes(members.map(getElementBounds));
+    if (bounds) items.push({ members, bounds });
+  }
+  return items;
+}
+
+// Locked members stay where they are
+function getMovable(item: Item) {
+  return item.members.filter((el) => !el.locked);
+}
+
+function findKeyItem(items: Item[], keyId: string | null) {
+  return keyId
+    ? items.find((item) => item.members.some((el) => el.id === keyId))
+    : undefined;
+}
+
+// Offset every element of each item, or null if nothing moves
+function moveItems(
+  elements: CanvasElementData[],
+  offsets: Map<Item, { dx: number; dy: number }>,
+): CanvasElementData[] | null {
+  const byId = new Map<string, { dx: number; dy: number }>();
+  for (const [item, offset] of offsets) {
+    if (Math.abs(offset.dx) < EPSILON && Math.abs(offset.dy) < EPSILON) {
+      continue;
+    }
+    for (const el of getMovable(item)) byId.set(el.id, offset);
+  }
+  if (byId.size === 0) return null;
+
+  return elements.map((el) => {
+    const offset = byId.get(el.id);
+    return offset ? { ...el, x: el.x + offset.dx, y: el.y + offset.dy } : el;
+  });
+}
+
+// Bounds of the item containing the key object, if it is part of a
+// selection of at least two items
+export function getKeyItemBounds(
+  elements: CanvasElementData[],
+  selectedIds: Set<string>,
+  keyId: string | null,
+): Box | null {
+  const items = getItems(elements, selectedIds);
+  if (items.length < 2) return null;
+  return findKeyItem(items, keyId)?.bounds ?? null;
+}
+
+// How many selected items can be aligned (2+) or distributed (3+)
+export function countAlignableItems(
+  elements: CanvasElementData[],
+  selectedIds: Set<string>,
+) {
+  return getItems(elements, selectedIds).length;
+}
+
+// Line up the selected items' edges or centers with the selection's bounds,
+// or with the key object's when one is given. Returns null if nothing
+// would move.
+export function alignElements(
+  elements: CanvasElementData[],
+  selectedIds: Set<string>,
+  action: AlignAction,
+  keyId: string | null = null,
+): CanvasElementData[] | null {
+  const items = getItems(elements, selectedIds);
+  if (items.length < 2) return null;
+
+  const keyItem = findKeyItem(items, keyId);
+  const target = keyItem
+    ? keyItem.bounds
+    : unionBoxes(items.map((item) => item.bounds));
+  if (!target) return null;
+
+  const offsets = new Map<Item, { dx: number; dy: number }>();
+  for (const item of items) {
+    if (item === keyItem) continue;
+    const { x, y, width, height } = item.bounds;
+    let dx = 0;
+    let dy = 0;
+    switch (action) {
+      case "left":
+        dx = target.x - x;
+        break;
+      case "center":
+        dx = target.x + target.width / 2 - (x + width / 2);
+        break;
+      case "right":
+        dx = target.x + target.width - (x + width);
+        break;
+      case "top":
+        dy = target.y - y;
+        break;
+      case "middle":
+        dy = target.y + target.height / 2 - (y + height / 2);
+        break;
+      case "bottom":
+        dy = target.y + target.height - (y + height);
+        break;
+    }
+    offsets.set(item, { dx, dy });
+  }
+  return moveItems(elements, offsets);
+}
+
+// Space the selected items evenly between the first and last along an
+// axis, which stay put. Fully locked items are left out. Returns null with
+// fewer than three items or if nothing would move.
+export function distributeElements(
+  elements: CanvasElementData[],
+  selectedIds: Set<string>,
+  axis: DistributeAxis,
+): CanvasElementData[] | null {
+  const items = getItems(elements, selectedIds).filter(
+    (item) => getMovable(item).length > 0,
+  );
+  if (items.length < 3) return null;
+
+  const start = (box: Box) => (axis === "horizontal" ? box.x : box.y);
+  const size = (box: Box) => (axis === "horizontal" ? box.width : box.height);
+
+  const sorted = [...items].sort(
+    (a, b) =>
+      start(a.bounds) - start(b.bounds) ||
+      start(a.bounds) + size(a.bounds) - (start(b.bounds) + size(b.bounds)),
+  );
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const totalSize = sorted.reduce((sum, item) => sum + size(item.bounds), 0);
+  const gap =
+    (start(last) + size(last) - start(first) - totalSize) / (sorted.length - 1);
+
+  const offsets = new Map<Item, { dx: number; dy: number }>();
+  let position = start(first);
+  for (const item of sorted) {
+    const delta = position - start(item.bounds);
+    offsets.set(
+      item,
+      axis === "horizontal" ? { dx: delta, dy: 0 } : { dx: 0, dy: delta },
+    );
+    position += size(item.bounds) + gap;
+  }
+  return moveItems(elements, offsets);
+}
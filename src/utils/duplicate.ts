@@ -0,0 +1,26 @@
+import type { CanvasElementData } from "../types/canvas";
+import { createId } from "./ids";
+
+// Copy elements under fresh ids, moved by `offset`. Groups among them are
+// copied as new groups, so the copies don't join the originals' groups.
+// Images keep pointing at the same blob, which is fine within one board;
+// other boards need their own copy (see copyElementsToBoard).
+export function cloneElements(
+  elements: CanvasElementData[],
+  offset = { x: 0, y: 0 },
+): CanvasElementData[] {
+  const groupIds = new Map<string, string>();
+  const cloneGroupId = (groupId: string) => {
+    if (!groupIds.has(groupId)) groupIds.set(groupId, createId("group"));
+    return groupIds.get(groupId)!;
+  };
+
+  return elements.map((el) => ({
+    ...el,
+    id: createId(el.type),
+    x: el.x + offset.x,
+    y: el.y + offset.y,
+    ...(el.type === "image" && { blobKey: el.blobKey || el.id }),
+    ...(el.groupIds && { groupIds: el.groupIds.map(cloneGroupId) }),
+  }));
+}
@@ -0,0 +1,267 @@
+import type { CanvasElementData } from "../types/canvas";
+import { DEFAULT_FILL } from "../components/Canvas/Shape";
+import {
+  IMAGE_CORNER_RADIUS,
+  getElementBounds,
+  getElementBox,
+  getFlipScale,
+  getImageSourceRect,
+  unionBoxes,
+  type Box,
+} from "./geometry";
+import { layoutTextbox } from "./textLayout";
+import { renderElementsToSvg } from "./exportSvg";
+
+export type ExportFormat = "png" | "jpeg" | "webp" | "svg";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Extra space around the tight bounding box, in canvas pixels
+  padding: number;
+  // CSS color to fill the background with, or null for transparent
+  background: string | null;
+  // Encoder quality for JPEG/WebP, 0-1
+  quality: number;
+  // Output pixels per canvas pixel for raster formats
+  pixelRatio: 1 | 2 | 3;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: "png",
+  padding: 0,
+  background: null,
+  quality: 0.92,
+  pixelRatio: 1,
+};
+
+// The screen's pixel ratio, clamped to the supported export scales
+export function getDefaultPixelRatio(): ExportOptions["pixelRatio"] {
+  return Math.min(
+    3,
+    Math.max(1, Math.round(window.devicePixelRatio || 1)),
+  ) as ExportOptions["pixelRatio"];
+}
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; mimeType: string; extension: string }
+> = {
+  png: { label: "PNG", mimeType: "image/png", extension: "png" },
+  jpeg: { label: "JPEG", mimeType: "image/jpeg", extension: "jpg" },
+  webp: { label: "WebP", mimeType: "image/webp", extension: "webp" },
+  svg: { label: "SVG", mimeType: "image/svg+xml", extension: "svg" },
+};
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for export"));
+    img.src = src;
+  });
+}
+
+function drawTextbox(ctx: CanvasRenderingContext2D, el: CanvasElementData) {
+  const layout = layoutTextbox(el);
+  const { style } = layout;
+  ctx.letterSpacing = `${style.letterSpacing}px`;
+  ctx.textBaseline = "alphabetic";
+  // Stroke first so the fill covers its inner half, like `paint-order`
+  if (style.strokeWidth) {
+    ctx.strokeStyle = style.strokeColor;
+    ctx.lineWidth = style.strokeWidth;
+    ctx.lineJoin = "round";
+  }
+  if (style.shadow) {
+    ctx.shadowColor = style.shadow.color;
+    ctx.shadowOffsetX = style.shadow.offsetX;
+    ctx.shadowOffsetY = style.shadow.offsetY;
+    ctx.shadowBlur = style.shadow.blur;
+  }
+
+  for (const line of layout.lines) {
+    for (const segment of line.segments) {
+      ctx.font = segment.font;
+      ctx.fillStyle = segment.color;
+      if (style.strokeWidth) ctx.strokeText(segment.text, segment.x, line.baseline);
+      ctx.fillText(segment.text, segment.x, line.baseline);
+      if (style.underline) {
+        const thickness = Math.max(1, segment.fontSize / 16);
+        ctx.fillRect(segment.x, line.baseline + thickness * 2, segment.width, thickness);
+      }
+    }
+  }
+}
+
+function drawImage(
+  ctx: CanvasRenderingContext2D,
+  el: CanvasElementData,
+  img: HTMLImageElement,
+  box: Box,
+) {
+  const source = getImageSourceRect(el, img.naturalWidth, img.naturalHeight);
+
+  ctx.beginPath();
+  ctx.roundRect(0, 0, box.width, box.height, IMAGE_CORNER_RADIUS);
+  ctx.clip();
+  ctx.drawImage(
+    img,
+    source.x,
+    source.y,
+    source.width,
+    source.height,
+    0,
+    0,
+    box.width,
+    box.height,
+  );
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, el: CanvasElementData, box: Box) {
+  const shape = el.shape || "rectangle";
+
+  // Shapes are 100x100 SVGs scaled with the default `xMidYMid meet`
+  const scale = Math.min(box.width, box.height) / 100;
+  ctx.translate((box.width - 100 * scale) / 2, (box.height - 100 * scale) / 2);
+  ctx.scale(scale, scale);
+  ctx.fillStyle = el.fillColor || DEFAULT_FILL[shape];
+
+  ctx.beginPath();
+  if (shape === "circle") {
+    ctx.arc(50, 50, 46, 0, Math.PI * 2);
+  } else if (shape === "triangle") {
+    ctx.moveTo(50, 6);
+    ctx.lineTo(96, 94);
+    ctx.lineTo(4, 94);
+    ctx.closePath();
+  } else {
+    ctx.rect(0, 0, 100, 100);
+  }
+  ctx.fill();
+}
+
+// Rasterize elements (in stacking order) onto a canvas tightly cropped to
+// their combined bounding box.
+export async function renderElementsToCanvas(
+  elements: CanvasElementData[],
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+): Promise<HTMLCanvasElement> {
+  const bounds = unionBoxes(elements.map(getElementBounds));
+  if (!bounds) throw new Error("Nothing to export");
+
+  // Make sure web fonts used by textboxes are ready before measuring
+  await document.fonts.ready;
+
+  const images = new Map<string, HTMLImageElement>();
+  await Promise.all(
+    elements
+      .filter((el) => el.type === "image" && el.src)
+      .map(async (el) => images.set(el.id, await loadImage(el.src!))),
+  );
+
+  const { padding, pixelRatio } = options;
+  const originX = bounds.x - padding;
+  const originY = bounds.y - padding;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.ceil((bounds.width + padding * 2) * pixelRatio));
+  canvas.height = Math.max(1, Math.ceil((bounds.height + padding * 2) * pixelRatio));
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  // JPEG has no alpha channel, so transparent areas would come out black
+  const background =
+    options.background ?? (options.format === "jpeg" ? "#ffffff" : null);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.scale(pixelRatio, pixelRatio);
+
+  for (const el of elements) {
+    const box = getElementBox(el);
+
+    ctx.save();
+    // Rotate around the element's center, like CSS `rotate()` does
+    ctx.translate(
+      box.x - originX + box.width / 2,
+      box.y - originY + box.height / 2,
+    );
+    ctx.rotate(((el.rotation || 0) * Math.PI) / 180);
+    const flip = getFlipScale(el);
+    ctx.scale(flip.x, flip.y);
+    ctx.translate(-box.width / 2, -box.height / 2);
+
+    if (el.type === "textbox") {
+      drawTextbox(ctx, el);
+    } else if (el.type === "image") {
+      const img = images.get(el.id);
+      if (img) drawImage(ctx, el, img, box);
+    } else if (el.type === "shape") {
+      drawShape(ctx, el, box);
+    }
+
+    ctx.restore();
+  }
+
+  return canvas;
+}
+
+export async function exportElements(
+  elements: CanvasElementData[],
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+): Promise<Blob> {
+  const { label, mimeType } = EXPORT_FORMATS[options.format];
+
+  if (options.format === "svg") {
+    const svg = await renderElementsToSvg(elements, options);
+    return new Blob([svg], { type: mimeType });
+  }
+
+  const canvas = await renderElementsToCanvas(elements, options);
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        // Browsers silently fall back to PNG for unsupported encoders
+        if (blob && blob.type === mimeType) resolve(blob);
+        else reject(new Error(`Failed to encode ${label}`));
+      },
+      mimeType,
+      options.quality,
+    );
+  });
+}
+
+// Small WebP preview of the elements as a data URL, at most `maxSize` pixels
+// on its longest side. Used for board thumbnails.
+export async function renderThumbnail(
+  elements: CanvasElementData[],
+  maxSize = 320,
+): Promise<string> {
+  const full = await renderElementsToCanvas(elements, {
+    ...DEFAULT_EXPORT_OPTIONS,
+    padding: 16,
+  });
+  const scale = Math.min(1, maxSize / Math.max(full.width, full.height));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(full.width * scale));
+  canvas.height = Math.max(1, Math.round(full.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(full, 0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL("image/webp", 0.8);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before revoking
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
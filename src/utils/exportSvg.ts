@@ -0,0 +1,229 @@
+import type { CanvasElementData } from "../types/canvas";
+import type { ExportOptions } from "./exportCanvas";
+import { DEFAULT_FILL } from "../components/Canvas/Shape";
+import { db } from "../db";
+import {
+  IMAGE_CORNER_RADIUS,
+  getElementBounds,
+  getElementBox,
+  getFlipScale,
+  getImageSourceRect,
+  unionBoxes,
+  type Box,
+} from "./geometry";
+import {
+  getCustomFontId,
+  getFontFaceName,
+  getFontStack,
+  layoutTextbox,
+  resolveTextStyle,
+  type ResolvedTextStyle,
+  type TextSegment,
+} from "./textLayout";
+
+interface EmbeddedImage {
+  dataUrl: string;
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function blobToDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Read an image element's blob from IndexedDB (by blobKey, falling back to
+// its id) so the SVG is self-contained rather than pointing at blob: URLs.
+async function embedImage(el: CanvasElementData): Promise<EmbeddedImage> {
+  const stored = await db.imageBlobs.get(el.blobKey || el.id);
+  let blob: Blob;
+  if (stored) {
+    blob = stored.blob;
+  } else if (el.src) {
+    blob = await (await fetch(el.src)).blob();
+  } else {
+    throw new Error("No image data found");
+  }
+
+  let naturalWidth = el.naturalWidth;
+  let naturalHeight = el.naturalHeight;
+  if (!naturalWidth || !naturalHeight) {
+    const bitmap = await createImageBitmap(blob);
+    naturalWidth = bitmap.width;
+    naturalHeight = bitmap.height;
+    bitmap.close();
+  }
+
+  return { dataUrl: await blobToDataUrl(blob), naturalWidth, naturalHeight };
+}
+
+// Only what differs from the <text> element's own attributes is repeated
+function renderSegment(segment: TextSegment, style: ResolvedTextStyle, fontSize: number) {
+  let attributes = "";
+  if (segment.fontSize !== fontSize) attributes += ` font-size="${segment.fontSize}"`;
+  if (segment.bold !== style.bold) attributes += ` font-weight="${segment.bold ? 700 : 400}"`;
+  if (segment.italic !== style.italic) {
+    attributes += ` font-style="${segment.italic ? "italic" : "normal"}"`;
+  }
+  if (segment.color !== style.color) attributes += ` fill="${escapeXml(segment.color)}"`;
+  const text = escapeXml(segment.text);
+  return attributes ? `<tspan${attributes}>${text}</tspan>` : text;
+}
+
+function renderTextbox(el: CanvasElementData) {
+  const layout = layoutTextbox(el);
+  const { style } = layout;
+  const fontSize = el.fontSize || 16;
+  const tspans = layout.lines
+    .map(
+      (line) =>
+        `<tspan x="${line.x}" y="${line.baseline}">${line.segments
+          .map((segment) => renderSegment(segment, style, fontSize))
+          .join("")}</tspan>`,
+    )
+    .join("");
+
+  let attributes =
+    `font-family="${escapeXml(getFontStack(style.fontFamily))}" font-size="${fontSize}" ` +
+    `font-style="${style.italic ? "italic" : "normal"}" font-weight="${style.bold ? 700 : 400}" ` +
+    `fill="${escapeXml(style.color)}"`;
+  if (style.letterSpacing) attributes += ` letter-spacing="${style.letterSpacing}"`;
+  if (style.underline) attributes += ` text-decoration="underline"`;
+  if (style.strokeWidth) {
+    attributes +=
+      ` stroke="${escapeXml(style.strokeColor)}" stroke-width="${style.strokeWidth}" ` +
+      `stroke-linejoin="round" paint-order="stroke"`;
+  }
+
+  let filter = "";
+  if (style.shadow) {
+    const filterId = `shadow-${escapeXml(el.id)}`;
+    const { color, offsetX, offsetY, blur } = style.shadow;
+    filter =
+      `<filter id="${filterId}" x="-50%" y="-50%" width="200%" height="200%">` +
+      `<feDropShadow dx="${offsetX}" dy="${offsetY}" stdDeviation="${blur / 2}" flood-color="${escapeXml(color)}"/></filter>`;
+    attributes += ` filter="url(#${filterId})"`;
+  }
+
+  return `${filter}<text xml:space="preserve" ${attributes}>${tspans}</text>`;
+}
+
+function renderImage(el: CanvasElementData, image: EmbeddedImage, box: Box) {
+  const source = getImageSourceRect(el, image.naturalWidth, image.naturalHeight);
+  const sx = box.width / source.width;
+  const sy = box.height / source.height;
+  const clipId = `clip-${escapeXml(el.id)}`;
+
+  return (
+    `<clipPath id="${clipId}"><rect width="${box.width}" height="${box.height}" rx="${IMAGE_CORNER_RADIUS}"/></clipPath>` +
+    `<g clip-path="url(#${clipId})"><image href="${image.dataUrl}" ` +
+    `x="${-source.x * sx}" y="${-source.y * sy}" ` +
+    `width="${image.naturalWidth * sx}" height="${image.naturalHeight * sy}" ` +
+    `preserveAspectRatio="none"/></g>`
+  );
+}
+
+// Embed an uploaded font as an @font-face rule so the SVG renders the same
+// text outside the app
+async function embedFont(fontId: string) {
+  const stored = await db.fonts.get(fontId);
+  if (!stored) return "";
+  const dataUrl = await blobToDataUrl(stored.blob);
+  return `@font-face{font-family:"${getFontFaceName(fontId)}";src:url("${dataUrl}")}`;
+}
+
+// Same markup the Shape component renders
+function renderShape(el: CanvasElementData, box: Box) {
+  const shape = el.shape || "rectangle";
+  const fill = escapeXml(el.fillColor || DEFAULT_FILL[shape]);
+
+  let inner: string;
+  if (shape === "circle") {
+    inner = `<circle cx="50" cy="50" r="46" fill="${fill}"/>`;
+  } else if (shape === "triangle") {
+    inner = `<polygon points="50,6 96,94 4,94" fill="${fill}"/>`;
+  } else {
+    inner = `<rect x="0" y="0" width="100" height="100" fill="${fill}"/>`;
+  }
+
+  return `<svg width="${box.width}" height="${box.height}" viewBox="0 0 100 100">${inner}</svg>`;
+}
+
+// Build a standalone SVG document for the elements, cropped to their combined
+// bounding box. Text stays as real <text> nodes; images are embedded.
+export async function renderElementsToSvg(
+  elements: CanvasElementData[],
+  options: ExportOptions,
+): Promise<string> {
+  const bounds = unionBoxes(elements.map(getElementBounds));
+  if (!bounds) throw new Error("Nothing to export");
+
+  await document.fonts.ready;
+
+  const images = new Map<string, EmbeddedImage>();
+  await Promise.all(
+    elements
+      .filter((el) => el.type === "image")
+      .map(async (el) => images.set(el.id, await embedImage(el))),
+  );
+
+  const fontIds = new Set(
+    elements.flatMap((el) => {
+      if (el.type !== "textbox") return [];
+      const fontId = getCustomFontId(resolveTextStyle(el.textStyle).fontFamily);
+      return fontId ? [fontId] : [];
+    }),
+  );
+  const fontFaces = (await Promise.all([...fontIds].map(embedFont))).join("");
+
+  const { padding } = options;
+  const width = bounds.width + padding * 2;
+  const height = bounds.height + padding * 2;
+  const originX = bounds.x - padding;
+  const originY = bounds.y - padding;
+
+  const body = elements.map((el) => {
+    const box = getElementBox(el);
+    const flip = getFlipScale(el);
+    const transform =
+      `translate(${box.x - originX + box.width / 2} ${box.y - originY + box.height / 2}) ` +
+      `rotate(${el.rotation || 0}) scale(${flip.x} ${flip.y}) ` +
+      `translate(${-box.width / 2} ${-box.height / 2})`;
+
+    let content = "";
+    if (el.type === "textbox") {
+      content = renderTextbox(el);
+    } else if (el.type === "image") {
+      const image = images.get(el.id);
+      if (image) content = renderImage(el, image, box);
+    } else if (el.type === "shape") {
+      content = renderShape(el, box);
+    }
+
+    return `<g transform="${transform}">${content}</g>`;
+  });
+
+  const background = options.background
+    ? `<rect width="100%" height="100%" fill="${escapeXml(options.background)}"/>`
+    : "";
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    (fontFaces ? `<defs><style><![CDATA[${fontFaces}]]></style></defs>` : "") +
+    background +
+    body.join("") +
+    `</svg>`
+  );
+}
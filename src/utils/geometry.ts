@@ -0,0 +1,267 @@
+import type { CanvasElementData, ResizeHandle } from "../types/canvas";
+import {
+  MAX_FONT_SIZE,
+  MIN_FONT_SIZE,
+  isFixedSizeTextbox,
+  layoutTextbox,
+} from "./textLayout";
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Matches the `rounded` (0.25rem) corners images are displayed with
+export const IMAGE_CORNER_RADIUS = 4;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Unrotated box of an element in canvas coordinates. Images and shapes use
+// the same fallbacks as their components when width/height are missing.
+export function getElementBox(el: CanvasElementData): Box {
+  if (el.type === "textbox") {
+    const { width, height } = layoutTextbox(el);
+    return { x: el.x, y: el.y, width, height };
+  }
+
+  const fallback = el.type === "shape" ? { w: 180, h: 120 } : { w: 200, h: 200 };
+  return {
+    x: el.x,
+    y: el.y,
+    width: el.width ?? fallback.w,
+    height: el.height ?? fallback.h,
+  };
+}
+
+// Corners of a box rotated around its center, matching CSS `rotate()` with
+// the default transform origin.
+export function getRotatedCorners(box: Box, rotation = 0): Point[] {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+
+  return [
+    [-box.width / 2, -box.height / 2],
+    [box.width / 2, -box.height / 2],
+    [box.width / 2, box.height / 2],
+    [-box.width / 2, box.height / 2],
+  ].map(([dx, dy]) => ({
+    x: cx + dx * cos - dy * sin,
+    y: cy + dx * sin + dy * cos,
+  }));
+}
+
+// Axis-aligned bounding box of an element, including its rotation
+export function getElementBounds(el: CanvasElementData): Box {
+  const corners = getRotatedCorners(getElementBox(el), el.rotation || 0);
+  const xs = corners.map((p) => p.x);
+  const ys = corners.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+}
+
+// Direction each handle moves the box's edges in, along the box's own axes
+const HANDLE_DIRECTIONS: Record<ResizeHandle, { x: number; y: number }> = {
+  n: { x: 0, y: -1 },
+  s: { x: 0, y: 1 },
+  e: { x: 1, y: 0 },
+  w: { x: -1, y: 0 },
+  nw: { x: -1, y: -1 },
+  ne: { x: 1, y: -1 },
+  sw: { x: -1, y: 1 },
+  se: { x: 1, y: 1 },
+};
+
+export interface ResizeOptions {
+  keepAspectRatio?: boolean;
+  // Resize symmetrically around the center instead of the opposite edge
+  fromCenter?: boolean;
+  minWidth?: number;
+  minHeight?: number;
+}
+
+// Resize a box rotated by `rotation` degrees by dragging one of its handles
+// (dx, dy) in canvas coordinates. The opposite edge or corner (or the center)
+// stays where it is on screen, however the box is rotated.
+export function resizeBox(
+  box: Box,
+  rotation: number,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+  { keepAspectRatio = false, fromCenter = false, minWidth = 1, minHeight = 1 }: ResizeOptions = {},
+): Box {
+  const direction = HANDLE_DIRECTIONS[handle];
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+
+  // Pointer movement along the box's own axes
+  const localDx = dx * cos + dy * sin;
+  const localDy = -dx * sin + dy * cos;
+  const growth = fromCenter ? 2 : 1;
+  let width = box.width + direction.x * localDx * growth;
+  let height = box.height + direction.y * localDy * growth;
+
+  if (keepAspectRatio) {
+    // Corners follow whichever axis moved further; edges drag the other
+    // axis along
+    const scaleX = width / box.width;
+    const scaleY = height / box.height;
+    let scale = direction.x ? scaleX : scaleY;
+    if (direction.x && direction.y && Math.abs(scaleY - 1) > Math.abs(scaleX - 1)) {
+      scale = scaleY;
+    }
+    scale = Math.max(scale, minWidth / box.width, minHeight / box.height);
+    width = box.width * scale;
+    height = box.height * scale;
+  } else {
+    width = Math.max(minWidth, width);
+    height = Math.max(minHeight, height);
+  }
+
+  // Move the center so the anchor (opposite the handle) stays put
+  const anchorX = fromCenter ? 0 : -direction.x / 2;
+  const anchorY = fromCenter ? 0 : -direction.y / 2;
+  const shiftX = anchorX * (box.width - width);
+  const shiftY = anchorY * (box.height - height);
+  const centerX = box.x + box.width / 2 + shiftX * cos - shiftY * sin;
+  const centerY = box.y + box.height / 2 + shiftX * sin + shiftY * cos;
+
+  return {
+    x: centerX - width / 2,
+    y: centerY - height / 2,
+    width,
+    height,
+  };
+}
+
+export function unionBoxes(boxes: Box[]): Box | null {
+  if (boxes.length === 0) return null;
+  const minX = Math.min(...boxes.map((b) => b.x));
+  const minY = Math.min(...boxes.map((b) => b.y));
+  const maxX = Math.max(...boxes.map((b) => b.x + b.width));
+  const maxY = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Move an element as part of a selection rotated by `deltaRotation`
+// degrees around `center`: its center orbits the pivot and it turns with it
+export function rotateElementAround(
+  el: CanvasElementData,
+  center: Point,
+  deltaRotation: number,
+): CanvasElementData {
+  const box = getElementBox(el);
+  const rad = (deltaRotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = box.x + box.width / 2 - center.x;
+  const dy = box.y + box.height / 2 - center.y;
+  return {
+    ...el,
+    x: center.x + dx * cos - dy * sin - box.width / 2,
+    y: center.y + dx * sin + dy * cos - box.height / 2,
+    rotation: ((el.rotation || 0) + deltaRotation) % 360,
+  };
+}
+
+// Move and scale an element as part of a selection whose bounding box is
+// scaled uniformly from `from` to `to`. Textboxes that grow with their text
+// scale their font instead of their box.
+export function scaleElementWithin(
+  el: CanvasElementData,
+  from: Box,
+  to: Box,
+): CanvasElementData {
+  const scale = to.width / from.width;
+  const box = getElementBox(el);
+  const width = box.width * scale;
+  const height = box.height * scale;
+  const x = to.x + (box.x + box.width / 2 - from.x) * scale - width / 2;
+  const y = to.y + (box.y + box.height / 2 - from.y) * scale - height / 2;
+
+  if (el.type === "textbox" && !isFixedSizeTextbox(el)) {
+    return {
+      ...el,
+      x,
+      y,
+      width: el.width !== undefined ? el.width * scale : undefined,
+      fontSize: Math.max(
+        MIN_FONT_SIZE,
+        Math.min(MAX_FONT_SIZE, (el.fontSize || 16) * scale),
+      ),
+    };
+  }
+  return { ...el, x, y, width, height };
+}
+
+// Textboxes aren't mirrored, since their text would come out unreadable
+export function canFlip(el: CanvasElementData) {
+  return el.type !== "textbox";
+}
+
+// Scale that mirrors an element's content, applied inside its rotation
+export function getFlipScale(el: CanvasElementData): Point {
+  return { x: el.flipX ? -1 : 1, y: el.flipY ? -1 : 1 };
+}
+
+// Mirror an element across the vertical ("horizontal" flip) or horizontal
+// center line of `within`. Mirroring reverses its rotation; images and
+// shapes flip their content too, textboxes only move.
+export function flipElementWithin(
+  el: CanvasElementData,
+  within: Box,
+  axis: "horizontal" | "vertical",
+): CanvasElementData {
+  const box = getElementBox(el);
+  const rotation = el.rotation ? -el.rotation : el.rotation;
+  if (axis === "horizontal") {
+    return {
+      ...el,
+      x: 2 * within.x + within.width - box.x - box.width,
+      rotation,
+      ...(canFlip(el) && { flipX: !el.flipX || undefined }),
+    };
+  }
+  return {
+    ...el,
+    y: 2 * within.y + within.height - box.y - box.height,
+    rotation,
+    ...(canFlip(el) && { flipY: !el.flipY || undefined }),
+  };
+}
+
+// Region of the source image an image element shows: its explicit crop, or
+// the centered region `object-cover` picks for the element's box.
+export function getImageSourceRect(
+  el: CanvasElementData,
+  naturalWidth: number,
+  naturalHeight: number,
+): Box {
+  if (el.crop) return el.crop;
+
+  const { width, height } = getElementBox(el);
+  const coverScale = Math.max(width / naturalWidth, height / naturalHeight);
+  const visibleW = width / coverScale;
+  const visibleH = height / coverScale;
+  return {
+    x: (naturalWidth - visibleW) / 2,
+    y: (naturalHeight - visibleH) / 2,
+    width: visibleW,
+    height: visibleH,
+  };
+}
@@ -0,0 +1,50 @@
+import type { GridSettings } from "../db";
+import type { Box } from "./geometry";
+import type { ResizeHandle } from "../types/canvas";
+
+export const GRID_SIZES = [10, 20, 50, 100];
+
+export const DEFAULT_GRID: GridSettings = {
+  visible: false,
+  snap: false,
+  size: 20,
+};
+
+// Grid lines closer together than this on screen are thinned out
+const MIN_SCREEN_SPACING = 8;
+
+// Spacing to draw grid lines at: the grid size, doubled until the lines are
+// far enough apart at the current zoom
+export function getGridSpacing(size: number, zoom: number) {
+  let spacing = size;
+  while (spacing * zoom < MIN_SCREEN_SPACING) spacing *= 2;
+  return spacing;
+}
+
+export function snapToGrid(value: number, size: number) {
+  return Math.round(value / size) * size;
+}
+
+// Adjust a resize drag so the edges it moves land on grid lines. Only
+// unrotated boxes snap, since a rotated box's edges can't follow the grid.
+export function snapResizeDelta(
+  box: Box,
+  rotation: number,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+  size: number,
+) {
+  if (rotation % 360 !== 0) return { dx, dy };
+
+  const left = box.x;
+  const right = box.x + box.width;
+  const top = box.y;
+  const bottom = box.y + box.height;
+
+  if (handle.includes("e")) dx = snapToGrid(right + dx, size) - right;
+  if (handle.includes("w")) dx = snapToGrid(left + dx, size) - left;
+  if (handle.includes("s")) dy = snapToGrid(bottom + dy, size) - bottom;
+  if (handle.includes("n")) dy = snapToGrid(top + dy, size) - top;
+  return { dx, dy };
+}
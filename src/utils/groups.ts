@@ -0,0 +1,167 @@
+import type { CanvasElementData } from "../types/canvas";
+import { createId } from "./ids";
+
+// Elements belong to (possibly nested) groups through `groupIds`, listed from
+// the outermost group in. A group exists for as long as an element lists it.
+
+function getGroupPath(el: CanvasElementData) {
+  return el.groupIds ?? [];
+}
+
+export function getGroupMemberIds(
+  elements: CanvasElementData[],
+  groupId: string,
+) {
+  return elements
+    .filter((el) => getGroupPath(el).includes(groupId))
+    .map((el) => el.id);
+}
+
+// How deep into an element's groups a click reaches: past the group that
+// was entered by double-clicking, or to the outermost group otherwise
+function getGroupLevel(el: CanvasElementData, enteredGroupId: string | null) {
+  const path = getGroupPath(el);
+  return enteredGroupId && path.includes(enteredGroupId)
+    ? path.indexOf(enteredGroupId) + 1
+    : 0;
+}
+
+// Group that double-clicking an element enters, or null if the element
+// itself is already what a click selects
+export function getGroupToEnter(
+  el: CanvasElementData,
+  enteredGroupId: string | null,
+) {
+  return getGroupPath(el)[getGroupLevel(el, enteredGroupId)] ?? null;
+}
+
+// Elements a click on `el` selects: the whole group at the current level,
+// or just the element. Locked members are left out.
+export function getSelectionTargetIds(
+  elements: CanvasElementData[],
+  el: CanvasElementData,
+  enteredGroupId: string | null,
+) {
+  const groupId = getGroupToEnter(el, enteredGroupId);
+  if (!groupId) return [el.id];
+  return elements
+    .filter((other) => getGroupPath(other).includes(groupId) && !other.locked)
+    .map((other) => other.id);
+}
+
+// Whether all of a group's members are selected. Locked members don't
+// count, since clicking a group leaves them out of the selection.
+function isWhollySelected(
+  elements: CanvasElementData[],
+  groupId: string,
+  selectedIds: Set<string>,
+) {
+  return elements.every(
+    (el) =>
+      !getGroupPath(el).includes(groupId) ||
+      el.locked ||
+      selectedIds.has(el.id),
+  );
+}
+
+// Groups shared by every element in the list, outermost first
+function getCommonGroupPath(elements: CanvasElementData[]) {
+  const [first, ...rest] = elements.map(getGroupPath);
+  const common: string[] = [];
+  for (const [i, groupId] of (first ?? []).entries()) {
+    if (!rest.every((path) => path[i] === groupId)) break;
+    common.push(groupId);
+  }
+  return common;
+}
+
+// The selection split into the items it acts as: whole groups just inside
+// the groups every selected element shares, and loose elements
+export function getSelectedItems(
+  elements: CanvasElementData[],
+  selectedIds: Set<string>,
+): CanvasElementData[][] {
+  const selected = elements.filter((el) => selectedIds.has(el.id));
+  const common = getCommonGroupPath(selected);
+  const items = new Map<string, CanvasElementData[]>();
+  for (const el of selected) {
+    const key = getGroupPath(el)[common.length] ?? el.id;
+    items.set(key, [...(items.get(key) ?? []), el]);
+  }
+  return [...items.values()];
+}
+
+// The selection grown to take in the whole of every group it reaches into
+// below the groups all of it shares, so grouping it can't split a group
+export function expandToWholeGroups(
+  elements: CanvasElementData[],
+  selectedIds: Set<string>,
+) {
+  const selected = elements.filter((el) => selectedIds.has(el.id));
+  const common = getCommonGroupPath(selected);
+  const expanded = new Set(selectedIds);
+  for (const el of selected) {
+    const groupId = getGroupPath(el)[common.length];
+    if (!groupId) continue;
+    for (const id of getGroupMemberIds(elements, groupId)) expanded.add(id);
+  }
+  return expanded;
+}
+
+// Put the selected elements in a new group, nested inside the innermost
+// group they already share. Groups the selection only partly covers go in
+// whole. Returns null if the selection is a single element or exactly an
+// existing group, which wouldn't gain anything from grouping.
+export function groupElements(
+  elements: CanvasElementData[],
+  selection: Set<string>,
+): CanvasElementData[] | null {
+  const selectedIds = expandToWholeGroups(elements, selection);
+  const selected = elements.filter((el) => selectedIds.has(el.id));
+  const common = getCommonGroupPath(selected);
+  if (getSelectedItems(elements, selectedIds).length < 2) return null;
+
+  const innermost = common[common.length - 1];
+  if (innermost && isWhollySelected(elements, innermost, selectedIds)) {
+    return null;
+  }
+
+  const groupId = createId("group");
+  return elements.map((el) => {
+    if (!selectedIds.has(el.id)) return el;
+    const path = getGroupPath(el);
+    return {
+      ...el,
+      groupIds: [
+        ...path.slice(0, common.length),
+        groupId,
+        ...path.slice(common.length),
+      ],
+    };
+  });
+}
+
+// Dissolve the outermost whole group each selected element is in, keeping
+// the groups nested inside it. Locked members leave the group too. Returns
+// null if no whole group is selected.
+export function ungroupElements(
+  elements: CanvasElementData[],
+  selectedIds: Set<string>,
+): CanvasElementData[] | null {
+  const dissolved = new Set<string>();
+  for (const el of elements) {
+    if (!selectedIds.has(el.id)) continue;
+    const groupId = getGroupPath(el).find((id) =>
+      isWhollySelected(elements, id, selectedIds),
+    );
+    if (groupId) dissolved.add(groupId);
+  }
+  if (dissolved.size === 0) return null;
+
+  return elements.map((el) => {
+    const path = getGroupPath(el);
+    if (!path.some((id) => dissolved.has(id))) return el;
+    const groupIds = path.filter((id) => !dissolved.has(id));
+    return { ...el, groupIds: groupIds.length > 0 ? groupIds : undefined };
+  });
+}
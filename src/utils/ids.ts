@@ -0,0 +1,5 @@
+// Unique id with a readable prefix (e.g. "image-..."), safe to call several
+// times within the same millisecond
+export function createId(prefix: string) {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,356 @@
+import type { CanvasElementData } from "../types/canvas";
+import type { TextRun } from "../components/Canvas/CanvasElement";
+
+export type RunStyle = Omit<TextRun, "text">;
+
+const RUN_STYLE_KEYS: (keyof RunStyle)[] = ["color", "bold", "italic", "scale"];
+
+// Relative sizes offered for a selection, and the range pasted sizes are
+// clamped to
+export const RUN_SCALES = [0.5, 0.75, 1, 1.5, 2, 3];
+const MIN_RUN_SCALE = 0.25;
+const MAX_RUN_SCALE = 4;
+
+// Font size pasted px/pt sizes are taken relative to (the browser default)
+const PASTE_BASE_FONT_SIZE = 16;
+
+export function isRunStyleChange(changes: object): changes is RunStyle {
+  return Object.keys(changes).every((key) =>
+    RUN_STYLE_KEYS.includes(key as keyof RunStyle),
+  );
+}
+
+export function getRunsText(runs: TextRun[]) {
+  return runs.map((run) => run.text).join("");
+}
+
+// A textbox's text as runs; plain textboxes are a single unstyled run
+export function getTextRuns(
+  el: Pick<CanvasElementData, "content" | "runs">,
+): TextRun[] {
+  return el.runs ?? [{ text: el.content || "" }];
+}
+
+function getRunStyle(run: TextRun): RunStyle {
+  const style: RunStyle = {};
+  // Colors are compared as strings, so keep hex colors in one case
+  if (run.color !== undefined) style.color = run.color.toUpperCase();
+  if (run.bold !== undefined) style.bold = run.bold;
+  if (run.italic !== undefined) style.italic = run.italic;
+  if (run.scale !== undefined && run.scale !== 1) style.scale = run.scale;
+  return style;
+}
+
+function isSameStyle(a: RunStyle, b: RunStyle) {
+  return RUN_STYLE_KEYS.every((key) => a[key] === b[key]);
+}
+
+// Drop empty runs and unset fields, and merge neighbours with equal styles
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const normalized: TextRun[] = [];
+  for (const run of runs) {
+    if (!run.text) continue;
+    const style = getRunStyle(run);
+    const last = normalized[normalized.length - 1];
+    if (last && isSameStyle(getRunStyle(last), style)) {
+      last.text += run.text;
+    } else {
+      normalized.push({ text: run.text, ...style });
+    }
+  }
+  return normalized;
+}
+
+// The `content` and `runs` fields for some runs. `content` always holds the
+// plain text; `runs` is left unset when no run has a style of its own.
+export function getTextFields(runs: TextRun[]): Pick<CanvasElementData, "content" | "runs"> {
+  const normalized = normalizeRuns(runs);
+  const isStyled = normalized.some(
+    (run) => Object.keys(getRunStyle(run)).length > 0,
+  );
+  return {
+    content: getRunsText(normalized),
+    runs: isStyled ? normalized : undefined,
+  };
+}
+
+// Split runs so that `offset` falls on a run boundary
+function splitRunsAt(runs: TextRun[], offset: number): TextRun[] {
+  const split: TextRun[] = [];
+  let position = 0;
+  for (const run of runs) {
+    const end = position + run.text.length;
+    if (offset > position && offset < end) {
+      split.push({ ...run, text: run.text.slice(0, offset - position) });
+      split.push({ ...run, text: run.text.slice(offset - position) });
+    } else {
+      split.push(run);
+    }
+    position = end;
+  }
+  return split;
+}
+
+// Apply style changes to the characters in [start, end)
+export function applyRunStyle(
+  runs: TextRun[],
+  start: number,
+  end: number,
+  changes: RunStyle,
+): TextRun[] {
+  let position = 0;
+  const styled = splitRunsAt(splitRunsAt(runs, start), end).map((run) => {
+    const runStart = position;
+    position += run.text.length;
+    return runStart >= start && runStart < end ? { ...run, ...changes } : run;
+  });
+  return normalizeRuns(styled);
+}
+
+// Style of the character at `start`, for showing the state of the toolbar
+// while text is selected
+export function getRunStyleAt(runs: TextRun[], start: number): RunStyle {
+  let position = 0;
+  for (const run of runs) {
+    position += run.text.length;
+    if (position > start) return getRunStyle(run);
+  }
+  return {};
+}
+
+// ---- Reading and writing the contentEditable DOM ----
+
+let colorContext: CanvasRenderingContext2D | null = null;
+
+// Any CSS color as #rrggbb, or undefined if it isn't an opaque color
+function toHexColor(value: string) {
+  colorContext ??= document.createElement("canvas").getContext("2d");
+  if (!colorContext || !value) return undefined;
+  colorContext.fillStyle = "#000001";
+  colorContext.fillStyle = value;
+  const color = colorContext.fillStyle;
+  return color.startsWith("#") && color !== "#000001" ? color.toUpperCase() : undefined;
+}
+
+function parseScale(value: string, baseFontSize: number) {
+  const match = /^([\d.]+)(px|pt|em|rem|%)$/.exec(value.trim());
+  if (!match) return undefined;
+
+  const amount = Number(match[1]);
+  const scale = {
+    px: amount / baseFontSize,
+    pt: (amount * 4) / 3 / baseFontSize,
+    em: amount,
+    rem: amount,
+    "%": amount / 100,
+  }[match[2]];
+  if (!scale || !Number.isFinite(scale)) return undefined;
+  return scale;
+}
+
+function clampScale(scale: number) {
+  return Math.min(MAX_RUN_SCALE, Math.max(MIN_RUN_SCALE, Math.round(scale * 100) / 100));
+}
+
+// Style an element adds on top of what it inherits. Only color, weight,
+// slant and size are kept; everything else in pasted HTML is dropped.
+function getElementRunStyle(
+  element: HTMLElement,
+  inherited: RunStyle,
+  baseFontSize: number,
+): RunStyle {
+  const style = { ...inherited };
+  const tag = element.tagName;
+  if (tag === "B" || tag === "STRONG") style.bold = true;
+  if (tag === "I" || tag === "EM") style.italic = true;
+
+  const fontColor = element.getAttribute("color");
+  if (tag === "FONT" && fontColor) style.color = toHexColor(fontColor) ?? style.color;
+
+  const { color, fontWeight, fontStyle, fontSize } = element.style;
+  if (color) style.color = toHexColor(color) ?? style.color;
+  if (fontWeight) {
+    style.bold = fontWeight === "bold" || fontWeight === "bolder" || Number(fontWeight) >= 600;
+  }
+  if (fontStyle) style.italic = fontStyle === "italic" || fontStyle === "oblique";
+  if (fontSize) {
+    // Sizes multiply, so a 2em span inside a 2em span is 4x
+    const scale = parseScale(fontSize, baseFontSize);
+    const isRelative = /(em|%)$/.test(fontSize.trim());
+    if (scale) style.scale = clampScale(isRelative ? (inherited.scale ?? 1) * scale : scale);
+  }
+  return style;
+}
+
+const BLOCK_TAGS = new Set(["DIV", "P", "LI", "H1", "H2", "H3", "H4", "H5", "H6", "TR", "BLOCKQUOTE", "PRE"]);
+const SKIPPED_TAGS = new Set(["SCRIPT", "STYLE", "TEMPLATE", "HEAD", "TITLE", "META"]);
+
+// Read runs out of a DOM tree: the textbox's own contentEditable, or HTML
+// pasted from elsewhere. `<br>` and block elements become line breaks.
+// `baseFontSize` is the size px font sizes are relative to.
+export function readRunsFromDom(root: Node, baseFontSize: number): TextRun[] {
+  const runs: TextRun[] = [];
+  const append = (text: string, style: RunStyle) => {
+    if (text) runs.push({ text, ...style });
+  };
+  const endsWithNewline = () => {
+    const last = runs[runs.length - 1];
+    return !last || last.text.endsWith("\n");
+  };
+
+  const walk = (node: Node, style: RunStyle) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      append(node.textContent ?? "", style);
+      return;
+    }
+    if (!(node instanceof HTMLElement) || SKIPPED_TAGS.has(node.tagName)) return;
+    if (node.tagName === "BR") {
+      append("\n", style);
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(node.tagName);
+    if (isBlock && !endsWithNewline()) append("\n", style);
+    const childStyle = getElementRunStyle(node, style, baseFontSize);
+    node.childNodes.forEach((child) => walk(child, childStyle));
+    // A block that only holds a `<br>` is an empty line, not two
+    if (isBlock && !endsWithNewline() && node.nextSibling) append("\n", style);
+  };
+
+  root.childNodes.forEach((child) => walk(child, {}));
+  return normalizeRuns(runs);
+}
+
+function isBlockBoundary(node: Node | null) {
+  return node instanceof HTMLElement && (BLOCK_TAGS.has(node.tagName) || node.tagName === "BR");
+}
+
+// Collapse whitespace the way HTML rendering does, since the textbox keeps
+// it (`white-space: pre-wrap`). Whitespace between blocks is dropped.
+function collapseWhitespace(root: HTMLElement) {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!node.parentElement?.closest("pre")) textNodes.push(node as Text);
+  }
+  for (const node of textNodes) {
+    const text = (node.textContent ?? "").replace(/\s+/g, " ");
+    const isBetweenBlocks =
+      (isBlockBoundary(node.previousSibling) || !node.previousSibling) &&
+      (isBlockBoundary(node.nextSibling) || !node.nextSibling);
+    node.textContent = text === " " && isBetweenBlocks ? "" : text;
+  }
+}
+
+// Sanitize clipboard HTML into runs
+export function readRunsFromHtml(html: string): TextRun[] {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  collapseWhitespace(doc.body);
+  const runs = readRunsFromDom(doc.body, PASTE_BASE_FONT_SIZE);
+  // Trim the line breaks that wrapping block elements leave at either end
+  const text = getRunsText(runs);
+  const start = text.length - text.trimStart().length;
+  const end = text.trimEnd().length;
+  let position = 0;
+  return normalizeRuns(
+    runs.map((run) => {
+      const runStart = position;
+      position += run.text.length;
+      return {
+        ...run,
+        text: run.text.slice(
+          Math.max(0, start - runStart),
+          Math.max(0, end - runStart),
+        ),
+      };
+    }),
+  );
+}
+
+// Replace the children of a contentEditable with spans for the runs
+export function renderRunsToDom(root: HTMLElement, runs: TextRun[]) {
+  root.replaceChildren(
+    ...runs.map((run) => {
+      const style = getRunStyle(run);
+      if (Object.keys(style).length === 0) return document.createTextNode(run.text);
+
+      const span = document.createElement("span");
+      span.textContent = run.text;
+      if (style.color) span.style.color = style.color;
+      if (style.bold !== undefined) span.style.fontWeight = style.bold ? "700" : "400";
+      if (style.italic !== undefined) span.style.fontStyle = style.italic ? "italic" : "normal";
+      if (style.scale) span.style.fontSize = `${style.scale}em`;
+      return span;
+    }),
+  );
+}
+
+// Character offset of a DOM position inside `root`, counted the same way
+// readRunsFromDom counts text
+function getTextOffset(root: HTMLElement, node: Node, offset: number) {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(node, offset);
+  return getRunsText(readRunsFromDom(range.cloneContents(), 16)).length;
+}
+
+// Selection within `root` as character offsets, or null if the selection
+// is elsewhere
+export function getSelectionOffsets(root: HTMLElement) {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) {
+    return null;
+  }
+  return {
+    start: getTextOffset(root, range.startContainer, range.startOffset),
+    end: getTextOffset(root, range.endContainer, range.endOffset),
+  };
+}
+
+// Select [start, end) in a contentEditable written by renderRunsToDom
+export function setSelectionOffsets(root: HTMLElement, start: number, end: number) {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.collapse(false);
+
+  let position = 0;
+  let hasStart = false;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0;
+    if (!hasStart && start <= position + length) {
+      range.setStart(node, start - position);
+      hasStart = true;
+    }
+    if (hasStart && end <= position + length) {
+      range.setEnd(node, end - position);
+      break;
+    }
+    position += length;
+  }
+
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+}
+
+// Insert runs at the current selection, replacing what is selected
+export function insertRuns(
+  runs: TextRun[],
+  inserted: TextRun[],
+  start: number,
+  end: number,
+): TextRun[] {
+  const split = splitRunsAt(splitRunsAt(runs, start), end);
+  let position = 0;
+  const before: TextRun[] = [];
+  const after: TextRun[] = [];
+  for (const run of split) {
+    if (position < start) before.push(run);
+    else if (position >= end) after.push(run);
+    position += run.text.length;
+  }
+  return normalizeRuns([...before, ...inserted, ...after]);
+}
@@ -0,0 +1,290 @@
+import type { Box } from "./geometry";
+
+// How close, in screen pixels, an edge or center has to come to snap
+export const SNAP_THRESHOLD = 6;
+
+type Axis = "x" | "y";
+
+// Alignment line drawn across the moving box and the box it lines up with.
+// `position` is the x of a vertical line or the y of a horizontal one;
+// `start`/`end` span the other axis.
+export interface SnapGuide {
+  axis: Axis;
+  position: number;
+  start: number;
+  end: number;
+}
+
+// Gap marker for equal-spacing hints, along `axis` from `start` to `end`,
+// drawn at `offset` on the other axis
+export interface SpacingGap {
+  axis: Axis;
+  start: number;
+  end: number;
+  offset: number;
+}
+
+// What to draw while a snapped drag is in progress
+export interface SnapHints {
+  guides: SnapGuide[];
+  gaps: SpacingGap[];
+}
+
+// Offsets that snap the box on each axis, or null where nothing is close
+export interface SnapResult extends SnapHints {
+  dx: number | null;
+  dy: number | null;
+}
+
+interface Candidate {
+  delta: number;
+  distance: number;
+}
+
+const EPSILON = 0.5;
+
+function getLines(box: Box, axis: Axis) {
+  const start = axis === "x" ? box.x : box.y;
+  const size = axis === "x" ? box.width : box.height;
+  return [start, start + size / 2, start + size];
+}
+
+function getRange(box: Box, axis: Axis): [number, number] {
+  return axis === "x"
+    ? [box.x, box.x + box.width]
+    : [box.y, box.y + box.height];
+}
+
+function other(axis: Axis): Axis {
+  return axis === "x" ? "y" : "x";
+}
+
+function overlaps(a: [number, number], b: [number, number]) {
+  return a[0] < b[1] && b[0] < a[1];
+}
+
+function moveBox(box: Box, axis: Axis, delta: number): Box {
+  return axis === "x"
+    ? { ...box, x: box.x + delta }
+    : { ...box, y: box.y + delta };
+}
+
+// Closest edge or center alignment with any target along one axis
+function findAlignment(
+  box: Box,
+  targets: Box[],
+  axis: Axis,
+  threshold: number,
+): Candidate | null {
+  let best: Candidate | null = null;
+  const lines = getLines(box, axis);
+  for (const target of targets) {
+    for (const targetLine of getLines(target, axis)) {
+      for (const line of lines) {
+        const delta = targetLine - line;
+        const distance = Math.abs(delta);
+        if (distance <= threshold && (!best || distance < best.distance)) {
+          best = { delta, distance };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+// Targets sharing a row (for x) or column (for y) with the box, ordered
+// along the axis
+function getNeighbors(box: Box, targets: Box[], axis: Axis) {
+  const band = getRange(box, other(axis));
+  const inBand = targets.filter((t) =>
+    overlaps(getRange(t, other(axis)), band),
+  );
+  const [start, end] = getRange(box, axis);
+  // Neighbors also have to start (or end) strictly further along, so
+  // walking from neighbor to neighbor always terminates
+  const before = inBand
+    .filter((t) => {
+      const [tStart, tEnd] = getRange(t, axis);
+      return tEnd <= start + EPSILON && tStart < start;
+    })
+    .sort((a, b) => getRange(b, axis)[1] - getRange(a, axis)[1]);
+  const after = inBand
+    .filter((t) => {
+      const [tStart, tEnd] = getRange(t, axis);
+      return tStart >= end - EPSILON && tEnd > end;
+    })
+    .sort((a, b) => getRange(a, axis)[0] - getRange(b, axis)[0]);
+  return { before, after };
+}
+
+// The nearest box in the same row/column as `box` on one side of it
+function getNextInBand(
+  box: Box,
+  targets: Box[],
+  axis: Axis,
+  side: "before" | "after",
+) {
+  return getNeighbors(box, targets, axis)[side][0];
+}
+
+// Position that makes the gaps around the box equal to each other, or to a
+// gap already between its neighbors
+function findSpacing(
+  box: Box,
+  targets: Box[],
+  axis: Axis,
+  threshold: number,
+): Candidate | null {
+  const { before, after } = getNeighbors(box, targets, axis);
+  const [start, end] = getRange(box, axis);
+  const size = end - start;
+  const prev = before[0];
+  const next = after[0];
+  const positions: number[] = [];
+
+  if (prev && next) {
+    const room = getRange(next, axis)[0] - getRange(prev, axis)[1];
+    if (room >= size) {
+      positions.push(getRange(prev, axis)[1] + (room - size) / 2);
+    }
+  }
+  if (prev) {
+    const prev2 = getNextInBand(prev, targets, axis, "before");
+    if (prev2) {
+      const gap = getRange(prev, axis)[0] - getRange(prev2, axis)[1];
+      if (gap > 0) positions.push(getRange(prev, axis)[1] + gap);
+    }
+  }
+  if (next) {
+    const next2 = getNextInBand(next, targets, axis, "after");
+    if (next2) {
+      const gap = getRange(next2, axis)[0] - getRange(next, axis)[1];
+      if (gap > 0) positions.push(getRange(next, axis)[0] - gap - size);
+    }
+  }
+
+  let best: Candidate | null = null;
+  for (const position of positions) {
+    const delta = position - start;
+    const distance = Math.abs(delta);
+    if (distance <= threshold && (!best || distance < best.distance)) {
+      best = { delta, distance };
+    }
+  }
+  return best;
+}
+
+// Guides for every target the (already snapped) box lines up with
+function collectGuides(box: Box, targets: Box[], axis: Axis): SnapGuide[] {
+  const guides: SnapGuide[] = [];
+  const lines = getLines(box, axis);
+  for (const target of targets) {
+    for (const targetLine of getLines(target, axis)) {
+      if (!lines.some((line) => Math.abs(line - targetLine) < EPSILON)) {
+        continue;
+      }
+      const [boxStart, boxEnd] = getRange(box, other(axis));
+      const [targetStart, targetEnd] = getRange(target, other(axis));
+      const start = Math.min(boxStart, targetStart);
+      const end = Math.max(boxEnd, targetEnd);
+      // One line per position, long enough to reach every aligned box
+      const existing = guides.find((g) => g.position === targetLine);
+      if (existing) {
+        existing.start = Math.min(existing.start, start);
+        existing.end = Math.max(existing.end, end);
+      } else {
+        guides.push({ axis, position: targetLine, start, end });
+      }
+    }
+  }
+  return guides;
+}
+
+// Equal gaps in a row of boxes that includes the (already snapped) box
+function collectGaps(box: Box, targets: Box[], axis: Axis): SpacingGap[] {
+  const { before, after } = getNeighbors(box, targets, axis);
+  const row: Box[] = [];
+  // Walk outwards from the box through neighbors that are each other's
+  // nearest neighbor in the band
+  for (
+    let prev = before[0];
+    prev;
+    prev = getNextInBand(prev, targets, axis, "before")
+  ) {
+    row.unshift(prev);
+  }
+  row.push(box);
+  for (
+    let next = after[0];
+    next;
+    next = getNextInBand(next, targets, axis, "after")
+  ) {
+    row.push(next);
+  }
+
+  const index = row.indexOf(box);
+  const gapAt = (i: number) =>
+    getRange(row[i + 1], axis)[0] - getRange(row[i], axis)[1];
+  const gapsAroundBox = [index - 1, index].filter(
+    (i) => i >= 0 && i < row.length - 1,
+  );
+
+  const gaps: SpacingGap[] = [];
+  for (const i of gapsAroundBox) {
+    const size = gapAt(i);
+    if (size <= 0) continue;
+    // Mark every gap in the row that matches this one
+    for (let j = 0; j < row.length - 1; j++) {
+      if (Math.abs(gapAt(j) - size) >= EPSILON || j === i) continue;
+      for (const k of [i, j]) {
+        const [aStart, aEnd] = getRange(row[k], other(axis));
+        const [bStart, bEnd] = getRange(row[k + 1], other(axis));
+        const offset = (Math.max(aStart, bStart) + Math.min(aEnd, bEnd)) / 2;
+        const start = getRange(row[k], axis)[1];
+        if (!gaps.some((g) => g.start === start && g.axis === axis)) {
+          gaps.push({
+            axis,
+            start,
+            end: getRange(row[k + 1], axis)[0],
+            offset,
+          });
+        }
+      }
+    }
+  }
+  return gaps;
+}
+
+// Nudge a moving box so its edges or center line up with other boxes, or
+// so it sits evenly spaced between them. `threshold` is in canvas units.
+export function snapBox(
+  box: Box,
+  targets: Box[],
+  threshold: number,
+): SnapResult {
+  const result: SnapResult = { dx: null, dy: null, guides: [], gaps: [] };
+  let snapped = box;
+
+  for (const axis of ["x", "y"] as const) {
+    const alignment = findAlignment(snapped, targets, axis, threshold);
+    const spacing = findSpacing(snapped, targets, axis, threshold);
+    const best =
+      alignment && (!spacing || alignment.distance <= spacing.distance)
+        ? alignment
+        : spacing;
+    if (!best) continue;
+
+    snapped = moveBox(snapped, axis, best.delta);
+    if (axis === "x") {
+      result.dx = best.delta;
+    } else {
+      result.dy = best.delta;
+    }
+  }
+
+  for (const axis of ["x", "y"] as const) {
+    result.guides.push(...collectGuides(snapped, targets, axis));
+    result.gaps.push(...collectGaps(snapped, targets, axis));
+  }
+  return result;
+}
@@ -0,0 +1,405 @@
+import type { CanvasElementData } from "../types/canvas";
+import { getTextRuns } from "./richText";
+import type {
+  BuiltinFontFamily,
+  FontFamily,
+  TextShadow,
+  TextStyle,
+} from "../components/Canvas/CanvasElement";
+
+// Font stacks for the built-in `fontFamily` values, shared by the Textbox
+// component and exports so both render the same font
+export const FONT_STACKS: Record<BuiltinFontFamily, string> = {
+  sans: "ui-sans-serif, system-ui, sans-serif",
+  "comic-sans": '"Comic Relief", sans-serif',
+  meme: '"Anton", Impact, sans-serif',
+};
+
+const CUSTOM_FONT_PREFIX = "custom:";
+
+export interface FontOption {
+  value: FontFamily;
+  label: string;
+}
+
+export const BUILTIN_FONT_OPTIONS: FontOption[] = [
+  { value: "sans", label: "Inter" },
+  { value: "comic-sans", label: "Comic" },
+  { value: "meme", label: "Meme" },
+];
+
+export function customFontFamily(fontId: string): FontFamily {
+  return `${CUSTOM_FONT_PREFIX}${fontId}`;
+}
+
+export function getCustomFontId(fontFamily: FontFamily): string | null {
+  return fontFamily.startsWith(CUSTOM_FONT_PREFIX)
+    ? fontFamily.slice(CUSTOM_FONT_PREFIX.length)
+    : null;
+}
+
+// Family name an uploaded font is registered under with the FontFace API,
+// kept separate from its display name so two uploads can't clash
+export function getFontFaceName(fontId: string) {
+  return `gloop-font-${fontId}`;
+}
+
+export function getFontStack(fontFamily: FontFamily) {
+  const fontId = getCustomFontId(fontFamily);
+  if (fontId) return `"${getFontFaceName(fontId)}", sans-serif`;
+  return FONT_STACKS[fontFamily as BuiltinFontFamily] ?? FONT_STACKS.sans;
+}
+
+export type ResolvedTextStyle = Required<Omit<TextStyle, "shadow">> & {
+  shadow?: TextShadow;
+};
+
+export const DEFAULT_TEXT_STYLE: ResolvedTextStyle = {
+  fontFamily: "sans",
+  color: "#000000",
+  bold: false,
+  italic: false,
+  underline: false,
+  allCaps: false,
+  align: "left",
+  letterSpacing: 0,
+  lineHeight: 1.5,
+  strokeColor: "#000000",
+  strokeWidth: 0,
+};
+
+export function resolveTextStyle(style: TextStyle = {}): ResolvedTextStyle {
+  const set = Object.entries(style).filter(([, value]) => value !== undefined);
+  return { ...DEFAULT_TEXT_STYLE, ...Object.fromEntries(set) };
+}
+
+// Value for the CSS `text-shadow` property and the SVG/canvas equivalents
+export function getTextShadowCss(shadow?: TextShadow) {
+  if (!shadow) return undefined;
+  return `${shadow.offsetX}px ${shadow.offsetY}px ${shadow.blur}px ${shadow.color}`;
+}
+
+// Box model of the Textbox component: outer `p-2` + 2px border, inner `p-2`,
+// an 80px min width on the outer box and a 40px min height on the inner one.
+export const TEXTBOX_OUTER_INSET = 10;
+export const TEXTBOX_INNER_PADDING = 8;
+export const TEXTBOX_MIN_WIDTH = 80;
+export const TEXTBOX_MIN_CONTENT_HEIGHT = 40;
+
+// Font size range for resizing and auto-fit
+export const MIN_FONT_SIZE = 8;
+export const MAX_FONT_SIZE = 200;
+
+// Fixed and auto-fit textboxes have an explicit width and height; the text
+// wraps inside them instead of the box growing to fit the text
+export function isFixedSizeTextbox(el: CanvasElementData) {
+  return el.textSizing === "fixed" || el.textSizing === "fit";
+}
+
+export interface TextSegment {
+  text: string;
+  width: number;
+  // Left edge of the segment, relative to the outer box
+  x: number;
+  font: string;
+  fontSize: number;
+  color: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+type SegmentStyle = Omit<TextSegment, "text" | "width" | "x">;
+
+interface StyledText {
+  text: string;
+  style: SegmentStyle;
+}
+
+export interface TextLine {
+  text: string;
+  width: number;
+  // Left edge of the line after alignment, relative to the outer box
+  x: number;
+  // Top of the line box and its text baseline, relative to the outer box
+  y: number;
+  baseline: number;
+  // Stretches of the line drawn with the same style (one for plain text)
+  segments: TextSegment[];
+}
+
+export interface TextboxLayout {
+  width: number;
+  height: number;
+  // Whether the text needs more room than the box has: taller than a fixed
+  // box, or with a word too long to fit on one line
+  overflows: boolean;
+  // Top-left of the text area, relative to the textbox's outer box
+  textX: number;
+  textY: number;
+  style: ResolvedTextStyle;
+  lines: TextLine[];
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function getMeasureContext() {
+  if (!measureContext) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) throw new Error("Canvas 2D context unavailable");
+  return measureContext;
+}
+
+function getFont(fontFamily: FontFamily, fontSize: number, bold: boolean, italic: boolean) {
+  return `${italic ? "italic" : "normal"} ${bold ? 700 : 400} ${fontSize}px ${getFontStack(fontFamily)}`;
+}
+
+export function getTextboxFont(el: CanvasElementData) {
+  const style = resolveTextStyle(el.textStyle);
+  return getFont(style.fontFamily, el.fontSize || 16, style.bold, style.italic);
+}
+
+// The text of each run as displayed, after the `allCaps` text-transform,
+// with the run's style resolved against the textbox's
+function getStyledText(el: CanvasElementData, style: ResolvedTextStyle): StyledText[] {
+  const fontSize = el.fontSize || 16;
+  return getTextRuns(el).map((run) => {
+    const bold = run.bold ?? style.bold;
+    const italic = run.italic ?? style.italic;
+    const runFontSize = fontSize * (run.scale ?? 1);
+    return {
+      text: style.allCaps ? run.text.toUpperCase() : run.text,
+      style: {
+        font: getFont(style.fontFamily, runFontSize, bold, italic),
+        fontSize: runFontSize,
+        color: run.color ?? style.color,
+        bold,
+        italic,
+      },
+    };
+  });
+}
+
+// The part of some styled text between two character offsets
+function sliceStyledText(pieces: StyledText[], start: number, end: number) {
+  const sliced: StyledText[] = [];
+  let position = 0;
+  for (const piece of pieces) {
+    const pieceStart = position;
+    position += piece.text.length;
+    const text = piece.text.slice(
+      Math.max(0, start - pieceStart),
+      Math.max(0, end - pieceStart),
+    );
+    if (text) sliced.push({ text, style: piece.style });
+  }
+  return sliced;
+}
+
+// Split styled text at line breaks into paragraphs
+function splitParagraphs(pieces: StyledText[]) {
+  const text = pieces.map((piece) => piece.text).join("");
+  const paragraphs: StyledText[][] = [];
+  let start = 0;
+  for (const line of text.split("\n")) {
+    paragraphs.push(sliceStyledText(pieces, start, start + line.length));
+    start += line.length + 1;
+  }
+  return paragraphs;
+}
+
+function measureStyledText(ctx: CanvasRenderingContext2D, pieces: StyledText[]) {
+  let width = 0;
+  for (const piece of pieces) {
+    ctx.font = piece.style.font;
+    width += ctx.measureText(piece.text).width;
+  }
+  return width;
+}
+
+// Break a paragraph into lines no wider than `maxWidth`, mirroring
+// `white-space: pre-wrap` + `overflow-wrap: break-word`. `brokeWord` is set
+// when a word had to be split across lines.
+function wrapParagraph(
+  ctx: CanvasRenderingContext2D,
+  paragraph: StyledText[],
+  maxWidth: number,
+): { lines: StyledText[][]; brokeWord: boolean } {
+  if (!Number.isFinite(maxWidth)) {
+    return { lines: [paragraph], brokeWord: false };
+  }
+
+  const text = paragraph.map((piece) => piece.text).join("");
+  const widthOf = (start: number, end: number) =>
+    measureStyledText(ctx, sliceStyledText(paragraph, start, end));
+  // End of the line [start, end) without its trailing whitespace
+  const trimmedEnd = (start: number, end: number) =>
+    start + text.slice(start, end).trimEnd().length;
+
+  const breaks: [number, number][] = [];
+  let lineStart = 0;
+  let position = 0;
+  let brokeWord = false;
+
+  for (const word of text.split(/(?<=\s)/)) {
+    const wordEnd = position + word.length;
+    if (
+      position !== lineStart &&
+      widthOf(lineStart, trimmedEnd(lineStart, wordEnd)) > maxWidth
+    ) {
+      breaks.push([lineStart, trimmedEnd(lineStart, position)]);
+      lineStart = position;
+    }
+    position = wordEnd;
+
+    // A single word wider than the box is broken character by character
+    while (
+      widthOf(lineStart, trimmedEnd(lineStart, position)) > maxWidth &&
+      position - lineStart > 1
+    ) {
+      let cut = position - 1;
+      while (cut > lineStart + 1 && widthOf(lineStart, cut) > maxWidth) {
+        cut--;
+      }
+      breaks.push([lineStart, cut]);
+      lineStart = cut;
+      brokeWord = true;
+    }
+  }
+  breaks.push([lineStart, trimmedEnd(lineStart, position)]);
+
+  return {
+    lines: breaks.map(([start, end]) => sliceStyledText(paragraph, start, end)),
+    brokeWord,
+  };
+}
+
+// Compute the rendered size and line breaks of a textbox from its data alone,
+// so it can be laid out without the DOM (exports, thumbnails, bounds).
+export function layoutTextbox(el: CanvasElementData): TextboxLayout {
+  const ctx = getMeasureContext();
+  const fontSize = el.fontSize || 16;
+  const style = resolveTextStyle(el.textStyle);
+  const textInset = TEXTBOX_OUTER_INSET + TEXTBOX_INNER_PADDING;
+  const maxTextWidth = el.width ? Math.max(0, el.width - textInset * 2) : Infinity;
+
+  ctx.letterSpacing = `${style.letterSpacing}px`;
+  const paragraphs = splitParagraphs(getStyledText(el, style)).map(
+    (paragraph) => wrapParagraph(ctx, paragraph, maxTextWidth),
+  );
+
+  // Space a font takes above and below the baseline in a line box, with
+  // glyphs centered the way CSS half-leading does
+  const lineMetrics = new Map<string, { above: number; below: number }>();
+  const getLineMetrics = (font: string, size: number) => {
+    let line = lineMetrics.get(font);
+    if (!line) {
+      ctx.font = font;
+      const metrics = ctx.measureText("Mg");
+      const ascent =
+        metrics.fontBoundingBoxAscent ?? metrics.actualBoundingBoxAscent;
+      const descent =
+        metrics.fontBoundingBoxDescent ?? metrics.actualBoundingBoxDescent;
+      const lineHeight = size * style.lineHeight;
+      const above = (lineHeight - (ascent + descent)) / 2 + ascent;
+      line = { above, below: lineHeight - above };
+      lineMetrics.set(font, line);
+    }
+    return line;
+  };
+  // Every line box is at least as tall as the textbox's own font needs
+  const strut = getLineMetrics(getTextboxFont(el), fontSize);
+
+  let y = textInset;
+  const measured = paragraphs
+    .flatMap((paragraph) => paragraph.lines)
+    .map((pieces) => {
+      let above = strut.above;
+      let below = strut.below;
+      let width = 0;
+      const segments = pieces.map((piece) => {
+        const metrics = getLineMetrics(piece.style.font, piece.style.fontSize);
+        above = Math.max(above, metrics.above);
+        below = Math.max(below, metrics.below);
+        ctx.font = piece.style.font;
+        const segment = {
+          text: piece.text,
+          width: ctx.measureText(piece.text).width,
+          x: width,
+          ...piece.style,
+        };
+        width += segment.width;
+        return segment;
+      });
+      const line = {
+        text: pieces.map((piece) => piece.text).join(""),
+        width,
+        y,
+        baseline: y + above,
+        segments,
+      };
+      y += above + below;
+      return line;
+    });
+
+  ctx.letterSpacing = "0px";
+
+  const textHeight = y - textInset;
+  const widest = measured.reduce((max, line) => Math.max(max, line.width), 0);
+  const width = el.width ?? Math.max(TEXTBOX_MIN_WIDTH, widest + textInset * 2);
+  const contentHeight = Math.max(
+    TEXTBOX_MIN_CONTENT_HEIGHT,
+    textHeight + TEXTBOX_INNER_PADDING * 2,
+  );
+  // Fixed and auto-fit boxes keep their own height, whatever the text needs
+  const hasFixedHeight = isFixedSizeTextbox(el) && el.height !== undefined;
+  const height = hasFixedHeight
+    ? el.height!
+    : contentHeight + TEXTBOX_OUTER_INSET * 2;
+
+  // Distribute each line's free space the way `text-align` does
+  const textWidth = width - textInset * 2;
+  const alignFactor = { left: 0, center: 0.5, right: 1 }[style.align];
+  const lines = measured.map((line) => {
+    const x = textInset + Math.max(0, textWidth - line.width) * alignFactor;
+    return {
+      ...line,
+      x,
+      segments: line.segments.map((segment) => ({
+        ...segment,
+        x: x + segment.x,
+      })),
+    };
+  });
+
+  return {
+    width,
+    height,
+    overflows:
+      paragraphs.some((paragraph) => paragraph.brokeWord) ||
+      textHeight + textInset * 2 > height,
+    textX: textInset,
+    textY: textInset,
+    style,
+    lines,
+  };
+}
+
+// Largest font size (to the nearest half pixel) at which the text fits the
+// box without overflowing or splitting words
+export function fitTextboxFontSize(el: CanvasElementData): number {
+  const fits = (fontSize: number) =>
+    !layoutTextbox({ ...el, fontSize }).overflows;
+
+  let low = MIN_FONT_SIZE;
+  let high = MAX_FONT_SIZE;
+  if (!fits(low)) return low;
+  if (fits(high)) return high;
+
+  while (high - low > 0.5) {
+    const mid = (low + high) / 2;
+    if (fits(mid)) low = mid;
+    else high = mid;
+  }
+  return Math.floor(low * 2) / 2;
+}
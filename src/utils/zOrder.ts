@@ -0,0 +1,65 @@
+import type { CanvasElementData } from "../types/canvas";
+
+// Stacking order is the order of `elements`: later elements draw on top
+export type ZOrderAction = "front" | "forward" | "backward" | "back";
+
+// Move the selected elements within the stack, keeping their order relative
+// to each other. Forward and backward step past one unselected element.
+// Returns null if nothing would move.
+export function reorderElements(
+  elements: CanvasElementData[],
+  selectedIds: Set<string>,
+  action: ZOrderAction,
+): CanvasElementData[] | null {
+  const isSelected = (el: CanvasElementData) => selectedIds.has(el.id);
+  let next: CanvasElementData[];
+
+  if (action === "front" || action === "back") {
+    const selected = elements.filter(isSelected);
+    const rest = elements.filter((el) => !isSelected(el));
+    next = action === "front" ? [...rest, ...selected] : [...selected, ...rest];
+  } else {
+    next = [...elements];
+    const swap = (i: number) => {
+      [next[i], next[i + 1]] = [next[i + 1], next[i]];
+    };
+    // Walk against the direction of travel so a run of selected elements
+    // moves as a block
+    if (action === "forward") {
+      for (let i = next.length - 2; i >= 0; i--) {
+        if (isSelected(next[i]) && !isSelected(next[i + 1])) swap(i);
+      }
+    } else {
+      for (let i = 0; i < next.length - 1; i++) {
+        if (!isSelected(next[i]) && isSelected(next[i + 1])) swap(i);
+      }
+    }
+  }
+
+  return next.some((el, i) => el !== elements[i]) ? next : null;
+}
+
+// Move the given elements (in their current relative order) directly in
+// front of or behind `targetId`, as when dropping them in the layers panel.
+// Returns null if nothing would move.
+export function moveElementsNextTo(
+  elements: CanvasElementData[],
+  ids: Set<string>,
+  targetId: string,
+  position: "front" | "behind",
+): CanvasElementData[] | null {
+  if (ids.has(targetId)) return null;
+
+  const moving = elements.filter((el) => ids.has(el.id));
+  const rest = elements.filter((el) => !ids.has(el.id));
+  const targetIndex = rest.findIndex((el) => el.id === targetId);
+  if (targetIndex === -1 || moving.length === 0) return null;
+
+  const insertAt = position === "front" ? targetIndex + 1 : targetIndex;
+  const next = [
+    ...rest.slice(0, insertAt),
+    ...moving,
+    ...rest.slice(insertAt),
+  ];
+  return next.some((el, i) => el !== elements[i]) ? next : null;
+}